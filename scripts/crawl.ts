@@ -6,11 +6,18 @@
  * Or add to package.json: "crawl": "tsx scripts/crawl.ts"
  */
 
-import { crawlShufersal } from "../src/crawlers/shufersal";
+import { crawlAllChains } from "../src/crawlers";
+import { summarizeCrawlReport } from "../src/crawlers/crawlReport";
 import { productCatalog } from "../src/lib/productCatalog";
-import { writeFileSync } from "fs";
+import { applyCrawlResults, getFallbackProducts } from "../src/lib/priceService";
+import { loadSnapshot } from "../src/lib/priceSnapshot";
+import { PriceSource, Product } from "../src/lib/types";
+import { mkdirSync, writeFileSync } from "fs";
 import { join } from "path";
 
+// Raw crawl output with each chain's crawl report, read by scripts/curate.ts
+const CRAWL_RESULT_PATH = join(process.cwd(), "data/crawl-latest.json");
+
 interface PriceData {
   lastUpdated: string;
   source: string;
@@ -25,142 +32,102 @@ interface PriceData {
     lowPrice: number;
     highPrice: number;
     matchedItems: number;
+    priceSource?: PriceSource;
   }>;
 }
 
+/**
+ * Summarize a priced product for prices.json
+ */
+function toPriceEntry(product: Product): PriceData["products"][number] {
+  return {
+    id: product.id,
+    name: product.name,
+    nameHebrew: product.nameHebrew,
+    category: product.category,
+    unit: product.unit,
+    image: product.image,
+    averagePrice: product.averagePrice,
+    lowPrice: product.lowPrice,
+    highPrice: product.highPrice,
+    matchedItems: product.storePrices?.length || 0,
+    priceSource: product.priceSource,
+  };
+}
+
+function writePrices(priceData: PriceData) {
+  const outputPath = join(process.cwd(), "src/data/prices.json");
+  writeFileSync(outputPath, JSON.stringify(priceData, null, 2), "utf-8");
+  return outputPath;
+}
+
 async function main() {
   console.log("🚀 Starting price crawl...\n");
 
-  // Crawl Shufersal
-  const result = await crawlShufersal();
+  // Crawl every registered chain
+  const results = await crawlAllChains();
 
-  if (!result.success) {
-    console.error("❌ Crawl failed:", result.error);
-    console.log("\n📋 Generating fallback prices file...");
-    generateFallbackPrices();
-    return;
+  for (const result of results.filter((r) => !r.success)) {
+    console.error(`❌ ${result.storeName} crawl failed:`, result.error);
   }
 
-  console.log(`\n📊 Processing ${result.items.length} items...`);
-
-  // Match to our catalog
-  const priceData: PriceData = {
-    lastUpdated: new Date().toISOString(),
-    source: "Shufersal",
-    products: [],
-  };
+  console.log("\n📑 Crawl report:");
+  for (const result of results) {
+    console.log(`   ${summarizeCrawlReport(result)}`);
+  }
 
-  for (const product of productCatalog) {
-    // Find matching items by barcode or name
-    const matches = result.items.filter((item) => {
-      // Barcode match
-      if (product.barcodes.includes(item.itemCode)) return true;
+  // Keep the raw results and their reports for curation and debugging
+  mkdirSync(join(process.cwd(), "data"), { recursive: true });
+  writeFileSync(CRAWL_RESULT_PATH, JSON.stringify(results), "utf-8");
+  console.log(`💾 Raw crawl saved to ${CRAWL_RESULT_PATH}`);
 
-      // Name match
-      const itemNameLower = item.itemName.toLowerCase();
-      return product.searchTerms.some(
-        (term) => itemNameLower.includes(term.toLowerCase())
-      );
-    });
-
-    if (matches.length > 0) {
-      const prices = matches.map((m) => m.itemPrice).filter((p) => p > 0);
-      const avg = prices.reduce((a, b) => a + b, 0) / prices.length;
-      const min = Math.min(...prices);
-      const max = Math.max(...prices);
-
-      priceData.products.push({
-        id: product.id,
-        name: product.name,
-        nameHebrew: product.nameHebrew,
-        category: product.category,
-        unit: product.unit,
-        image: product.image,
-        averagePrice: Math.round(avg * 10) / 10,
-        lowPrice: Math.round(min * 10) / 10,
-        highPrice: Math.round(max * 10) / 10,
-        matchedItems: matches.length,
-      });
+  // Price the catalog exactly as the server does, saving the snapshot and history
+  const crawledAt = new Date();
+  const products = await applyCrawlResults(results, crawledAt);
+  if (!products) {
+    console.log("\n📋 Generating fallback prices file...");
+    generateFallbackPrices();
+    return;
+  }
 
+  for (const product of products) {
+    if (product.priceSource === "live" && product.stats) {
+      const { lowPrice, highPrice, outlierCount } = product.stats;
       console.log(
-        `✅ ${product.nameHebrew}: ₪${min.toFixed(1)} - ₪${max.toFixed(1)} (${matches.length} matches)`
+        `✅ ${product.nameHebrew}: ₪${lowPrice.toFixed(1)} - ₪${highPrice.toFixed(1)} ` +
+          `(${product.storePrices?.length} matches, ${outlierCount} outliers)`
       );
     } else {
-      console.log(`⚠️  ${product.nameHebrew}: No matches found`);
+      console.log(`⚠️  ${product.nameHebrew}: No matches found, using ${product.priceSource}`);
     }
   }
 
-  // Save to file
-  const outputPath = join(process.cwd(), "src/data/prices.json");
-  writeFileSync(outputPath, JSON.stringify(priceData, null, 2), "utf-8");
+  const outputPath = writePrices({
+    lastUpdated: crawledAt.toISOString(),
+    source: results
+      .filter((r) => r.success)
+      .map((r) => r.storeName)
+      .join(", "),
+    products: products.map(toPriceEntry),
+  });
   console.log(`\n💾 Saved to ${outputPath}`);
 
-  console.log(`\n✨ Done! Found prices for ${priceData.products.length}/${productCatalog.length} products`);
+  const live = products.filter((product) => product.priceSource === "live").length;
+  console.log(`\n✨ Done! Found prices for ${live}/${productCatalog.length} products`);
 }
 
+/**
+ * Write prices.json from the last successful crawl snapshot, falling back
+ * to the catalog's estimates for products it doesn't have
+ */
 function generateFallbackPrices() {
-  const fallbackPrices: Record<string, { average: number; low: number; high: number }> = {
-    "1": { average: 8.9, low: 5.9, high: 14.9 },
-    "2": { average: 6.9, low: 3.9, high: 9.9 },
-    "3": { average: 5.5, low: 3.5, high: 8.9 },
-    "4": { average: 4.9, low: 2.9, high: 7.9 },
-    "5": { average: 5.9, low: 3.9, high: 8.9 },
-    "6": { average: 12.9, low: 7.9, high: 19.9 },
-    "7": { average: 6.9, low: 4.9, high: 9.9 },
-    "8": { average: 9.9, low: 6.9, high: 14.9 },
-    "9": { average: 7.9, low: 5.9, high: 11.9 },
-    "10": { average: 6.9, low: 4.9, high: 9.9 },
-    "11": { average: 19.9, low: 12.9, high: 29.9 },
-    "12": { average: 4.9, low: 2.9, high: 7.9 },
-    "13": { average: 6.9, low: 5.9, high: 7.9 },
-    "14": { average: 23.9, low: 19.9, high: 29.9 },
-    "15": { average: 7.9, low: 5.9, high: 9.9 },
-    "16": { average: 18.9, low: 14.9, high: 24.9 },
-    "17": { average: 12.9, low: 9.9, high: 16.9 },
-    "18": { average: 8.9, low: 6.9, high: 12.9 },
-    "19": { average: 7.9, low: 5.9, high: 10.9 },
-    "20": { average: 14.9, low: 10.9, high: 19.9 },
-    "21": { average: 39.9, low: 29.9, high: 49.9 },
-    "22": { average: 54.9, low: 44.9, high: 69.9 },
-    "23": { average: 29.9, low: 22.9, high: 39.9 },
-    "24": { average: 89.9, low: 69.9, high: 119.9 },
-    "25": { average: 44.9, low: 34.9, high: 54.9 },
-    "26": { average: 9.9, low: 6.9, high: 14.9 },
-    "27": { average: 7.9, low: 4.9, high: 10.9 },
-    "28": { average: 6.9, low: 4.9, high: 9.9 },
-    "29": { average: 8.9, low: 5.9, high: 11.9 },
-    "30": { average: 12.9, low: 9.9, high: 16.9 },
-    "31": { average: 4.9, low: 2.9, high: 6.9 },
-    "32": { average: 6.9, low: 4.9, high: 8.9 },
-    "33": { average: 6.9, low: 4.9, high: 8.9 },
-    "34": { average: 14.9, low: 9.9, high: 19.9 },
-    "35": { average: 39.9, low: 29.9, high: 54.9 },
-  };
-
-  const priceData: PriceData = {
-    lastUpdated: new Date().toISOString(),
-    source: "fallback",
-    products: productCatalog.map((p) => {
-      const prices = fallbackPrices[p.id];
-      return {
-        id: p.id,
-        name: p.name,
-        nameHebrew: p.nameHebrew,
-        category: p.category,
-        unit: p.unit,
-        image: p.image,
-        averagePrice: prices.average,
-        lowPrice: prices.low,
-        highPrice: prices.high,
-        matchedItems: 0,
-      };
-    }),
-  };
-
-  const outputPath = join(process.cwd(), "src/data/prices.json");
-  writeFileSync(outputPath, JSON.stringify(priceData, null, 2), "utf-8");
-  console.log(`💾 Fallback prices saved to ${outputPath}`);
+  const snapshot = loadSnapshot();
+  const outputPath = writePrices({
+    lastUpdated: snapshot?.crawledAt || new Date().toISOString(),
+    source: snapshot ? "snapshot" : "fallback",
+    products: getFallbackProducts().map(toPriceEntry),
+  });
+  console.log(`💾 ${snapshot ? "Snapshot" : "Fallback"} prices saved to ${outputPath}`);
 }
 
 main().catch(console.error);
-
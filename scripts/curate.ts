@@ -0,0 +1,133 @@
+#!/usr/bin/env npx tsx
+/**
+ * Match Curation Script
+ *
+ * Walks through catalog products and their candidate items from the last
+ * crawl, letting a curator pin or reject each item code. Decisions are
+ * saved to src/data/matchOverrides.json and applied by the matcher.
+ *
+ * Run with: npx tsx scripts/curate.ts [productId...]
+ * Run `npm run crawl` first to produce data/crawl-latest.json
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { createInterface } from "readline/promises";
+import { CrawlerResult, RawStoreItem } from "../src/lib/types";
+import { productCatalog, CatalogProduct } from "../src/lib/productCatalog";
+import { matchItems } from "../src/lib/matching";
+import { mergeCrawlerResults } from "../src/crawlers";
+import {
+  loadMatchOverrides,
+  saveMatchOverrides,
+  setItemDecision,
+  MatchOverrides,
+} from "../src/lib/matchOverrides";
+
+// Written by scripts/crawl.ts
+const CRAWL_RESULT_PATH = join(process.cwd(), "data/crawl-latest.json");
+
+// Show weaker candidates than the matcher uses, so near-misses can be pinned
+const CANDIDATE_THRESHOLD = 0.4;
+const MAX_CANDIDATES = 15;
+
+interface Candidate {
+  itemCode: string;
+  itemName: string;
+  chains: Set<string>;
+  prices: number[];
+  confidence: number;
+}
+
+/**
+ * Group a product's matches by item code, skipping decided codes
+ */
+function getCandidates(
+  items: RawStoreItem[],
+  product: CatalogProduct,
+  overrides: MatchOverrides
+): Candidate[] {
+  const decided = overrides.products[product.id];
+  const skip = new Set([...(decided?.pinned || []), ...(decided?.rejected || [])]);
+  const candidates = new Map<string, Candidate>();
+
+  for (const { item, confidence } of matchItems(items, product, CANDIDATE_THRESHOLD)) {
+    if (skip.has(item.itemCode)) continue;
+
+    const candidate = candidates.get(item.itemCode) || {
+      itemCode: item.itemCode,
+      itemName: item.itemName,
+      chains: new Set<string>(),
+      prices: [],
+      confidence,
+    };
+    candidate.chains.add(item.chainId || "?");
+    candidate.prices.push(item.itemPrice);
+    candidates.set(item.itemCode, candidate);
+  }
+
+  return Array.from(candidates.values())
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+}
+
+function formatCandidate(candidate: Candidate): string {
+  const min = Math.min(...candidate.prices);
+  const max = Math.max(...candidate.prices);
+  const range = min === max ? `₪${min.toFixed(2)}` : `₪${min.toFixed(2)}-₪${max.toFixed(2)}`;
+  return (
+    `${candidate.itemName} | ${range} | ${candidate.itemCode} | ` +
+    `${[...candidate.chains].join(", ")} | ${Math.round(candidate.confidence * 100)}%`
+  );
+}
+
+async function main() {
+  if (!existsSync(CRAWL_RESULT_PATH)) {
+    console.error(`❌ No crawl found at ${CRAWL_RESULT_PATH} - run npm run crawl first`);
+    process.exit(1);
+  }
+
+  const results = JSON.parse(readFileSync(CRAWL_RESULT_PATH, "utf-8")) as CrawlerResult[];
+  const items = mergeCrawlerResults(results);
+  const overrides = loadMatchOverrides();
+
+  const productIds = process.argv.slice(2);
+  const products = productIds.length
+    ? productCatalog.filter((product) => productIds.includes(product.id))
+    : productCatalog;
+
+  console.log(`🧐 Curating ${products.length} products against ${items.length} crawled items`);
+  console.log("   y = pin, n = reject, s = skip, d = done with product, q = quit\n");
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  let decisions = 0;
+
+  try {
+    for (const product of products) {
+      const candidates = getCandidates(items, product, overrides);
+      if (candidates.length === 0) continue;
+
+      console.log(`\n${product.image} ${product.nameHebrew} (${product.name}, ${product.unit})`);
+
+      for (const candidate of candidates) {
+        const answer = (await rl.question(`   ${formatCandidate(candidate)}  [y/n/s/d/q] `))
+          .trim()
+          .toLowerCase();
+
+        if (answer === "q") return;
+        if (answer === "d") break;
+        if (answer !== "y" && answer !== "n") continue;
+
+        const decision = answer === "y" ? "pinned" : "rejected";
+        setItemDecision(overrides, product.id, candidate.itemCode, decision);
+        saveMatchOverrides(overrides);
+        decisions++;
+      }
+    }
+  } finally {
+    rl.close();
+    console.log(`\n✨ Saved ${decisions} decisions`);
+  }
+}
+
+main().catch(console.error);
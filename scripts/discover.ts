@@ -0,0 +1,137 @@
+#!/usr/bin/env npx tsx
+/**
+ * Catalog Discovery Script
+ *
+ * Groups the last crawl's items that no catalog product covers into
+ * suggested catalog entries, saved to data/catalog-suggestions.json.
+ * With --review, walks through the pending suggestions so a reviewer can
+ * promote each into the catalog or dismiss it.
+ *
+ * Run with: npx tsx scripts/discover.ts [--review]
+ * Run `npm run crawl` first to produce data/crawl-latest.json
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { createInterface, Interface } from "readline/promises";
+import { CrawlerResult } from "../src/lib/types";
+import {
+  categoryTree,
+  CategoryId,
+  getCategoryPath,
+  isLeafCategory,
+} from "../src/lib/categories";
+import { mergeCrawlerResults } from "../src/crawlers";
+import {
+  CatalogSuggestion,
+  discoverCatalogSuggestions,
+  dismissSuggestion,
+  loadSuggestions,
+  mergeSuggestions,
+  promoteSuggestion,
+  saveSuggestions,
+  SUGGESTIONS_PATH,
+} from "../src/lib/catalogDiscovery";
+
+// Written by scripts/crawl.ts
+const CRAWL_RESULT_PATH = join(process.cwd(), "data/crawl-latest.json");
+
+// Products can only go in leaf categories
+const LEAF_CATEGORIES = categoryTree.filter((node) => isLeafCategory(node.id));
+
+const formatCategory = (id: string) =>
+  getCategoryPath(id)
+    .map((node) => node.nameHebrew)
+    .join(" > ");
+
+function formatSuggestion(suggestion: CatalogSuggestion): string {
+  const price = suggestion.fallbackPrice;
+  const range = price ? `₪${price.low.toFixed(2)}-₪${price.high.toFixed(2)}` : "no price";
+  const category = suggestion.category ? formatCategory(suggestion.category) : "?";
+  return [
+    `${suggestion.image} ${suggestion.nameHebrew} (${suggestion.unit}, ${range})`,
+    `   category: ${category} | chains: ${suggestion.chains.join(", ")} | ` +
+      `${suggestion.itemCount} items`,
+    `   terms: ${suggestion.searchTerms.join(" / ")} | barcodes: ${suggestion.barcodes.length}`,
+    `   seen as: ${suggestion.itemNames.join(" / ")}`,
+  ].join("\n");
+}
+
+/**
+ * Ask for a category when discovery couldn't guess one
+ */
+async function askCategory(rl: Interface): Promise<CategoryId | undefined> {
+  LEAF_CATEGORIES.forEach((node, i) => console.log(`   ${i + 1}. ${formatCategory(node.id)}`));
+  const answer = await rl.question("   Category number (empty to skip) ");
+  return LEAF_CATEGORIES[Number(answer.trim()) - 1]?.id;
+}
+
+async function review(suggestions: CatalogSuggestion[], save: () => void) {
+  const pending = suggestions.filter((suggestion) => suggestion.status === "pending");
+  console.log(`\n🧐 Reviewing ${pending.length} suggestions`);
+  console.log("   y = promote, n = dismiss, s = skip, q = quit\n");
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  let promoted = 0;
+  let dismissed = 0;
+
+  try {
+    for (const suggestion of pending) {
+      console.log(`\n${formatSuggestion(suggestion)}`);
+      const answer = (await rl.question("   [y/n/s/q] ")).trim().toLowerCase();
+
+      if (answer === "q") return;
+      if (answer === "n") {
+        dismissSuggestion(suggestion);
+        save();
+        dismissed++;
+        continue;
+      }
+      if (answer !== "y") continue;
+
+      const category = suggestion.category || (await askCategory(rl));
+      if (!category) continue;
+      const name = (await rl.question("   English name (empty to keep the Hebrew) ")).trim();
+
+      const change = promoteSuggestion(suggestion, { category, ...(name && { name }) });
+      if (change.errors) {
+        console.error(`   ❌ ${change.errors.join("\n   ❌ ")}`);
+        continue;
+      }
+      save();
+      promoted++;
+      console.log(`   ✅ Added as product ${change.product.id}`);
+    }
+  } finally {
+    rl.close();
+    console.log(`\n✨ Promoted ${promoted}, dismissed ${dismissed}`);
+  }
+}
+
+async function main() {
+  if (!existsSync(CRAWL_RESULT_PATH)) {
+    console.error(`❌ No crawl found at ${CRAWL_RESULT_PATH} - run npm run crawl first`);
+    process.exit(1);
+  }
+
+  const results = JSON.parse(readFileSync(CRAWL_RESULT_PATH, "utf-8")) as CrawlerResult[];
+  const items = mergeCrawlerResults(results);
+  console.log(`🔎 Looking for new products among ${items.length} crawled items`);
+
+  const fresh = discoverCatalogSuggestions(items);
+  const file = {
+    generatedAt: new Date().toISOString(),
+    suggestions: mergeSuggestions(loadSuggestions().suggestions, fresh),
+  };
+  const save = () => saveSuggestions(file);
+  save();
+
+  const pending = file.suggestions.filter((suggestion) => suggestion.status === "pending");
+  console.log(`💡 ${pending.length} suggestions saved to ${SUGGESTIONS_PATH}`);
+
+  if (process.argv.includes("--review")) {
+    await review(file.suggestions, save);
+  }
+}
+
+main().catch(console.error);
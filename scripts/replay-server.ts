@@ -0,0 +1,58 @@
+#!/usr/bin/env npx tsx
+/**
+ * Price File Replay Server
+ *
+ * Serves a fixture directory over HTTP, standing in for the chains' sites
+ * so crawls (and the app) can run with no network. Fixtures are laid out as
+ * described in src/crawlers/source.ts.
+ *
+ * Run with: npx tsx scripts/replay-server.ts <fixture dir> [port]
+ * e.g. npm run replay fixtures/shufersal
+ * Then crawl against it: CRAWL_SOURCE=http://localhost:8787 npm run crawl
+ */
+
+import { createServer } from "http";
+import { Readable } from "stream";
+import { createDirectorySource } from "../src/crawlers/source";
+
+const DEFAULT_PORT = 8787;
+
+function main() {
+  const [dir, portArg] = process.argv.slice(2);
+  if (!dir) {
+    console.error("❌ Usage: npx tsx scripts/replay-server.ts <fixture dir> [port]");
+    process.exit(1);
+  }
+
+  const source = createDirectorySource(dir);
+  const port = Number(portArg) || DEFAULT_PORT;
+
+  const server = createServer(async (req, res) => {
+    // /<host>/<path> replays https://<host>/<path>
+    const [, host, ...path] = (req.url || "/").split("/");
+    if (!host) {
+      res.writeHead(404).end("Request /<host>/<path>");
+      return;
+    }
+
+    try {
+      const response = await source.fetch(`https://${host}/${path.join("/")}`);
+      res.writeHead(response.status, Object.fromEntries(response.headers));
+      if (response.body) {
+        Readable.from(response.body as unknown as AsyncIterable<Uint8Array>).pipe(res);
+      } else {
+        res.end();
+      }
+      console.log(`${response.status} ${req.method} ${req.url}`);
+    } catch (error) {
+      console.error(`❌ ${req.url}:`, error);
+      res.writeHead(500).end();
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`🎞️  Replaying ${dir} on http://localhost:${port}`);
+  });
+}
+
+main();
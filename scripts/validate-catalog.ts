@@ -0,0 +1,35 @@
+#!/usr/bin/env npx tsx
+/**
+ * Catalog Validation Script
+ *
+ * Checks src/data/catalog.json after a hand edit: unique IDs, known
+ * categories and barcode check digits.
+ *
+ * Run with: npx tsx scripts/validate-catalog.ts [catalog file]
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { CatalogFile } from "../src/lib/productCatalog";
+import { validateCatalog } from "../src/lib/catalogValidation";
+
+// Same file src/lib/productCatalog.ts loads - importing it would throw on a bad file
+const CATALOG_PATH = process.argv[2] || join(process.cwd(), "src/data/catalog.json");
+
+function main() {
+  const data = JSON.parse(readFileSync(CATALOG_PATH, "utf-8")) as CatalogFile;
+  const errors = validateCatalog(data.products);
+
+  if (errors.length > 0) {
+    console.error(`❌ ${errors.length} problems in ${CATALOG_PATH}:`);
+    for (const error of errors) {
+      console.error(`   ${error}`);
+    }
+    process.exit(1);
+  }
+
+  const retired = data.products.filter((product) => product.retired).length;
+  console.log(`✅ Catalog is valid: ${data.products.length} products (${retired} retired)`);
+}
+
+main();
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { checkAdminAuth } from "@/lib/adminAuth";
+import {
+  CatalogChange,
+  getAllCatalogProducts,
+  pickCatalogFields,
+  retireCatalogProduct,
+  updateCatalogProduct,
+} from "@/lib/productCatalog";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: { id: string } };
+
+/**
+ * Turn a catalog change into a response: 404 for an unknown product,
+ * 400 for a validation failure
+ */
+function changeResponse(id: string, change: CatalogChange) {
+  if (change.errors) {
+    const notFound = !getAllCatalogProducts().some((product) => product.id === id);
+    return NextResponse.json(
+      { success: false, errors: change.errors },
+      { status: notFound ? 404 : 400 }
+    );
+  }
+  return NextResponse.json({ success: true, product: change.product });
+}
+
+/**
+ * Run a catalog change, answering 500 when the catalog can't be saved
+ */
+function runChange(id: string, change: () => CatalogChange) {
+  try {
+    return changeResponse(id, change());
+  } catch (error) {
+    console.error("Catalog API Error:", error);
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  const product = getAllCatalogProducts().find((p) => p.id === params.id);
+  if (!product) {
+    return NextResponse.json(
+      { success: false, error: `Unknown product: ${params.id}` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, product });
+}
+
+/**
+ * Update some of a product's fields
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Body must be JSON" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { success: false, error: "Body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+
+  return runChange(params.id, () => updateCatalogProduct(params.id, pickCatalogFields(body)));
+}
+
+/**
+ * Retire a product - it keeps its ID and history but is no longer priced
+ */
+export async function DELETE(request: Request, { params }: Params) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  return runChange(params.id, () => retireCatalogProduct(params.id));
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { checkAdminAuth } from "@/lib/adminAuth";
+import {
+  createCatalogProduct,
+  getAllCatalogProducts,
+  pickCatalogFields,
+} from "@/lib/productCatalog";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * List every catalog product, retired ones included
+ */
+export async function GET(request: Request) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  return NextResponse.json({
+    success: true,
+    products: getAllCatalogProducts(),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Add a product; the ID is assigned unless the body gives one
+ */
+export async function POST(request: Request) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: "Body must be JSON" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { success: false, error: "Body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const id = typeof body.id === "string" && body.id ? body.id : undefined;
+    const change = createCatalogProduct({ ...pickCatalogFields(body), id });
+    if (change.errors) {
+      return NextResponse.json({ success: false, errors: change.errors }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, product: change.product }, { status: 201 });
+  } catch (error) {
+    console.error("Catalog API Error:", error);
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { checkAdminAuth } from "@/lib/adminAuth";
+import { pickCatalogFields } from "@/lib/productCatalog";
+import {
+  dismissSuggestion,
+  loadSuggestions,
+  promoteSuggestion,
+  saveSuggestions,
+} from "@/lib/catalogDiscovery";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: { key: string } };
+
+/**
+ * Find a pending suggestion, or the error response to send
+ */
+function findPending(key: string) {
+  const file = loadSuggestions();
+  const suggestion = file.suggestions.find((s) => s.key === key);
+
+  if (!suggestion) {
+    const error = NextResponse.json(
+      { success: false, error: `Unknown suggestion: ${key}` },
+      { status: 404 }
+    );
+    return { error };
+  }
+  if (suggestion.status !== "pending") {
+    const error = NextResponse.json(
+      { success: false, error: `Suggestion ${key} is already ${suggestion.status}` },
+      { status: 409 }
+    );
+    return { error };
+  }
+
+  return { file, suggestion };
+}
+
+/**
+ * Promote a suggestion into the catalog
+ * The body may override any editable product field, e.g. name or category
+ */
+export async function POST(request: Request, { params }: Params) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  let body: Record<string, unknown> = {};
+  try {
+    const text = await request.text();
+    if (text) body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ success: false, error: "Body must be JSON" }, { status: 400 });
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json(
+      { success: false, error: "Body must be a JSON object" },
+      { status: 400 }
+    );
+  }
+
+  const { file, suggestion, error } = findPending(params.key);
+  if (error) return error;
+
+  try {
+    const change = promoteSuggestion(suggestion, pickCatalogFields(body));
+    if (change.errors) {
+      return NextResponse.json({ success: false, errors: change.errors }, { status: 400 });
+    }
+
+    saveSuggestions(file);
+    return NextResponse.json({ success: true, product: change.product }, { status: 201 });
+  } catch (error) {
+    console.error("Suggestions API Error:", error);
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Dismiss a suggestion so discovery stops offering it
+ */
+export async function DELETE(request: Request, { params }: Params) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  const { file, suggestion, error } = findPending(params.key);
+  if (error) return error;
+
+  try {
+    dismissSuggestion(suggestion);
+    saveSuggestions(file);
+    return NextResponse.json({ success: true, suggestion });
+  } catch (error) {
+    console.error("Suggestions API Error:", error);
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { checkAdminAuth } from "@/lib/adminAuth";
+import { loadSuggestions, SuggestionStatus } from "@/lib/catalogDiscovery";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES: SuggestionStatus[] = ["pending", "promoted", "dismissed"];
+
+/**
+ * List catalog suggestions from the last discovery run (pending by default,
+ * ?status=promoted|dismissed|all for the rest)
+ */
+export async function GET(request: Request) {
+  const denied = checkAdminAuth(request);
+  if (denied) return denied;
+
+  const status = new URL(request.url).searchParams.get("status") || "pending";
+  if (status !== "all" && !STATUSES.includes(status as SuggestionStatus)) {
+    return NextResponse.json(
+      { success: false, error: `Unknown status: ${status}` },
+      { status: 400 }
+    );
+  }
+
+  const file = loadSuggestions();
+  return NextResponse.json({
+    success: true,
+    generatedAt: file.generatedAt,
+    suggestions: file.suggestions.filter((s) => status === "all" || s.status === status),
+    timestamp: new Date().toISOString(),
+  });
+}
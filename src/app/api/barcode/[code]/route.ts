@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { barcodeToProduct } from "@/lib/productCatalog";
+import { fetchAllPrices, findCrawledItem, getFallbackProducts } from "@/lib/priceService";
+import { parseBarcode } from "@/lib/barcodes";
+import { getCrawler } from "@/crawlers";
+
+export const dynamic = "force-dynamic";
+
+function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+/**
+ * Look up a scanned barcode: the catalog product (and variant) it belongs
+ * to with its prices and stats, else the item as the latest crawl saw it
+ * In-store (2xxxxx) codes need ?chain= for the chain that issued them.
+ */
+export async function GET(request: Request, { params }: { params: { code: string } }) {
+  const { searchParams } = new URL(request.url);
+
+  const barcode = parseBarcode(params.code);
+  if (typeof barcode === "string") return badRequest(barcode);
+
+  const chain = searchParams.get("chain") || undefined;
+  if (chain && !getCrawler(chain)) return badRequest(`Unknown chain: ${chain}`);
+  if (barcode.inStore && !chain) {
+    return badRequest(`${barcode.code} is an in-store code - give the chain that issued it`);
+  }
+
+  try {
+    // Prices the crawl too, so crawled items can be found on a cold start
+    let products;
+    try {
+      products = await fetchAllPrices();
+    } catch (error) {
+      console.error("Barcode API Error:", error);
+      products = getFallbackProducts();
+    }
+
+    // Only a maker's barcode means the same product at every chain
+    const catalogProduct = barcode.inStore ? undefined : barcodeToProduct.get(barcode.code);
+    if (catalogProduct) {
+      // The snapshot or estimate stands in while the first crawl runs
+      const product =
+        products.find((p) => p.id === catalogProduct.id) ||
+        getFallbackProducts().find((p) => p.id === catalogProduct.id)!;
+      const variant = catalogProduct.variants?.find((v) => v.barcodes.includes(barcode.code));
+      return NextResponse.json({
+        success: true,
+        barcode,
+        source: "catalog",
+        product,
+        variant: product.variants?.find((v) => v.id === variant?.id),
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const item = findCrawledItem(barcode, chain);
+    if (!item) {
+      return NextResponse.json(
+        { success: false, barcode, error: `No product or crawled item for ${barcode.code}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      barcode,
+      chain,
+      source: "crawl",
+      item,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Barcode API Error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { NextResponse } from "next/server";
+import { fetchAllPrices, findCrawledItem, getFallbackProducts } from "@/lib/priceService";
+import { barcodeToProduct, CatalogProduct, productCatalog } from "@/lib/productCatalog";
+import { getItemCodeKey, parseBarcode, ScannedBarcode } from "@/lib/barcodes";
+import { compareBasket, PricedBasketLine } from "@/lib/basket";
+import { Product } from "@/lib/types";
+import { getCrawler } from "@/crawlers";
+
+export const dynamic = "force-dynamic";
+
+const MAX_BASKET_ITEMS = 100;
+
+interface BasketRequestItem {
+  productId?: string;
+  variantId?: string; // Price one variant instead of the whole product
+  barcode?: string; // Instead of productId; items outside the catalog are priced from the crawl
+  chain?: string; // The chain that issued an in-store (2xxxxx) barcode
+  quantity?: number; // In the product's unit, 1 by default
+}
+
+interface BasketRequest {
+  items?: BasketRequestItem[];
+}
+
+// A request line resolved to a catalog product (and variant) or a barcode
+type ResolvedItem =
+  | { key: string; quantity: number; product: CatalogProduct; variantId?: string }
+  | {
+      key: string;
+      quantity: number;
+      product?: undefined;
+      barcode: ScannedBarcode;
+      chain?: string;
+    };
+
+function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+/**
+ * Get the line key of a catalog product or one of its variants, so a
+ * product asked for by barcode and by ID adds up on one line
+ */
+const getProductKey = (productId: string, variantId?: string) =>
+  variantId ? `${productId}/${variantId}` : productId;
+
+/**
+ * Resolve a request line to what it prices, or an error message
+ */
+function resolveItem(item: BasketRequestItem, index: number): ResolvedItem | string {
+  const label = `items[${index}]`;
+  if (!item || typeof item !== "object") return `${label} must be an object`;
+
+  const quantity = item.quantity === undefined ? 1 : Number(item.quantity);
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return `${label}: quantity must be a positive number`;
+  }
+  if (!item.productId === !item.barcode) {
+    return `${label}: give either productId or barcode`;
+  }
+
+  if (item.barcode) {
+    const barcode = parseBarcode(String(item.barcode));
+    if (typeof barcode === "string") return `${label}: ${barcode}`;
+
+    // Only a maker's barcode means the same product at every chain
+    const product = barcode.inStore ? undefined : barcodeToProduct.get(barcode.code);
+    if (!product) {
+      const chain = item.chain ? String(item.chain) : undefined;
+      if (chain && !getCrawler(chain)) return `${label}: unknown chain ${chain}`;
+      if (barcode.inStore && !chain) {
+        return `${label}: ${barcode.code} is an in-store code - give the chain that issued it`;
+      }
+      // In-store codes are different items at different chains, so they get a line each
+      return { key: getItemCodeKey(barcode.code, chain), quantity, barcode, chain };
+    }
+
+    const variant = product.variants?.find((v) => v.barcodes.includes(barcode.code));
+    const key = getProductKey(product.id, variant?.id);
+    return { key, quantity, product, variantId: variant?.id };
+  }
+
+  const product = productCatalog.find((p) => p.id === item.productId);
+  if (!product) return `${label}: unknown product ${item.productId}`;
+  if (item.variantId && !product.variants?.some((v) => v.id === item.variantId)) {
+    return `${label}: unknown variant of product ${product.id}: ${item.variantId}`;
+  }
+  return {
+    key: getProductKey(product.id, item.variantId),
+    quantity,
+    product,
+    variantId: item.variantId,
+  };
+}
+
+/**
+ * Attach the store prices a resolved line is compared on
+ */
+function toPricedLine(item: ResolvedItem, products: Product[]): PricedBasketLine | undefined {
+  if (!item.product) {
+    const crawled = findCrawledItem(item.barcode, item.chain);
+    if (!crawled) return undefined;
+    return {
+      key: item.key,
+      nameHebrew: crawled.itemName,
+      quantity: item.quantity,
+      prices: crawled.prices,
+    };
+  }
+
+  const product = products.find((p) => p.id === item.product.id)!;
+  const priced = product.variants?.find((v) => v.id === item.variantId) || product;
+  return {
+    key: item.key,
+    nameHebrew: priced.nameHebrew,
+    unit: priced.unit,
+    quantity: item.quantity,
+    prices: priced.storePrices || [],
+  };
+}
+
+/**
+ * Compare a shopping list across chains and branches
+ * Body: { items: [{ productId, variantId?, quantity? } | { barcode, quantity? }] }
+ */
+export async function POST(request: Request) {
+  let body: BasketRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest("Body must be JSON");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return badRequest("Body must be a JSON object");
+  }
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    return badRequest("items must be a non-empty list");
+  }
+  if (body.items.length > MAX_BASKET_ITEMS) {
+    return badRequest(`A basket can hold at most ${MAX_BASKET_ITEMS} items`);
+  }
+
+  // The same product twice is one line with the quantities added up
+  const resolved = new Map<string, ResolvedItem>();
+  for (const [index, item] of body.items.entries()) {
+    const line = resolveItem(item, index);
+    if (typeof line === "string") return badRequest(line);
+    const existing = resolved.get(line.key);
+    const quantity = (existing?.quantity || 0) + line.quantity;
+    resolved.set(line.key, { ...line, quantity });
+  }
+
+  let source = "crawled";
+  let products;
+  try {
+    products = await fetchAllPrices();
+  } catch (error) {
+    console.error("Basket API Error:", error);
+    products = getFallbackProducts();
+    source = "fallback";
+  }
+
+  const lines: PricedBasketLine[] = [];
+  const unknown: string[] = [];
+  for (const item of Array.from(resolved.values())) {
+    const line = toPricedLine(item, products);
+    if (line) lines.push(line);
+    else unknown.push(item.key);
+  }
+
+  return NextResponse.json({
+    success: true,
+    items: lines.map(({ prices, ...line }) => line),
+    ...compareBasket(lines),
+    unknown, // Barcodes neither the catalog nor the latest crawl knows
+    source,
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { productCatalog } from "@/lib/productCatalog";
+import {
+  aggregateSeries,
+  getProductPriceSeries,
+  Granularity,
+  ALL_CHAINS,
+} from "@/lib/priceHistory";
+
+export const dynamic = "force-dynamic";
+
+const GRANULARITIES: Granularity[] = ["day", "week", "month"];
+const DEFAULT_RANGE_DAYS = 90;
+
+/**
+ * Parse a date query parameter, or null when it isn't a valid date
+ */
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const { searchParams } = new URL(request.url);
+
+  const product = productCatalog.find((p) => p.id === params.id);
+  if (!product) {
+    return NextResponse.json(
+      { success: false, error: `Unknown product: ${params.id}` },
+      { status: 404 }
+    );
+  }
+
+  const granularity = (searchParams.get("granularity") || "day") as Granularity;
+  if (!GRANULARITIES.includes(granularity)) {
+    return NextResponse.json(
+      { success: false, error: `granularity must be one of ${GRANULARITIES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const to = parseDate(searchParams.get("to"));
+  const from = parseDate(searchParams.get("from"));
+  if (to === null || from === null) {
+    return NextResponse.json(
+      { success: false, error: "from and to must be ISO dates" },
+      { status: 400 }
+    );
+  }
+
+  const toDate = to || new Date();
+  // Include the whole "to" day when only a date is given
+  if (searchParams.get("to")?.length === 10) toDate.setUTCHours(23, 59, 59, 999);
+  const fromDate = from || new Date(toDate.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+  const chain = searchParams.get("chain") || ALL_CHAINS;
+
+  try {
+    const observations = await getProductPriceSeries(product.id, {
+      from: fromDate,
+      to: toDate,
+      chainId: chain,
+    });
+
+    return NextResponse.json({
+      success: true,
+      productId: product.id,
+      chain,
+      granularity,
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      series: aggregateSeries(observations, granularity),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("History API Error:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
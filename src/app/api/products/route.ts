@@ -1,13 +1,98 @@
 import { NextResponse } from "next/server";
-import { fetchAllPrices, getFallbackProducts } from "@/lib/priceService";
+import { fetchAllPrices, getFallbackProducts, getPriceCacheStatus } from "@/lib/priceService";
+import { isCategoryId } from "@/lib/categories";
+import {
+  decodeCursor,
+  MAX_PAGE_SIZE,
+  PRODUCT_FIELDS,
+  PRODUCT_SORTS,
+  ProductQuery,
+  ProductSort,
+  queryProducts,
+  SortOrder,
+} from "@/lib/productQuery";
+import { Product } from "@/lib/types";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 3600; // Revalidate every hour
 
+/**
+ * Parse a non-negative number query parameter, or null when it isn't one
+ */
+function parseNumber(value: string | null): number | null | undefined {
+  if (value === null || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+/**
+ * Read the search, filter, sort and paging parameters
+ * Returns an error message for the first invalid one
+ */
+function parseQuery(searchParams: URLSearchParams): ProductQuery | string {
+  const category = searchParams.get("category") || undefined;
+  if (category && !isCategoryId(category)) return `Unknown category: ${category}`;
+
+  const minPrice = parseNumber(searchParams.get("minPrice"));
+  const maxPrice = parseNumber(searchParams.get("maxPrice"));
+  if (minPrice === null || maxPrice === null) {
+    return "minPrice and maxPrice must be non-negative numbers";
+  }
+
+  const sort = (searchParams.get("sort") || "name") as ProductSort;
+  if (!PRODUCT_SORTS.includes(sort)) {
+    return `sort must be one of ${PRODUCT_SORTS.join(", ")}`;
+  }
+  const order = (searchParams.get("order") || undefined) as SortOrder | undefined;
+  if (order && order !== "asc" && order !== "desc") return "order must be asc or desc";
+
+  const limit = parseNumber(searchParams.get("limit"));
+  if (
+    limit === null ||
+    (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE))
+  ) {
+    return `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`;
+  }
+
+  const cursor = searchParams.get("cursor") || undefined;
+  if (cursor && !decodeCursor(cursor, sort)) return "Invalid cursor for this sort";
+
+  const fieldList = searchParams.get("fields");
+  const fields = fieldList
+    ? (fieldList.split(",").map((field) => field.trim()) as (keyof Product)[])
+    : undefined;
+  const unknown = fields?.filter((field) => !PRODUCT_FIELDS.includes(field));
+  if (unknown?.length) return `Unknown fields: ${unknown.join(", ")}`;
+
+  return {
+    q: searchParams.get("q")?.trim() || undefined,
+    category,
+    minPrice,
+    maxPrice,
+    sort,
+    order,
+    cursor,
+    limit,
+    fields,
+  };
+}
+
+/**
+ * List products, optionally searched (q), filtered (category, minPrice,
+ * maxPrice), sorted (sort=name|price|spread|updated, order=asc|desc),
+ * paged (limit, cursor from the previous page's nextCursor; every product
+ * when no limit is given) and trimmed
+ * to some fields (fields=id,nameHebrew,averagePrice)
+ */
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const skipCrawl = searchParams.get("fallback") === "true";
 
+  const query = parseQuery(searchParams);
+  if (typeof query === "string") {
+    return NextResponse.json({ success: false, error: query }, { status: 400 });
+  }
+
   try {
     let products;
 
@@ -19,10 +104,16 @@ export async function GET(request: Request) {
       products = await fetchAllPrices();
     }
 
+    const cache = getPriceCacheStatus();
+
     return NextResponse.json({
       success: true,
-      products,
-      source: skipCrawl ? "fallback" : "crawled",
+      ...queryProducts(products, query),
+      source: skipCrawl || !cache.lastUpdated ? "fallback" : "crawled",
+      lastUpdated: skipCrawl ? undefined : cache.lastUpdated,
+      dataAgeSeconds: skipCrawl ? undefined : cache.dataAgeSeconds,
+      stale: skipCrawl ? undefined : cache.stale,
+      refreshing: cache.refreshing,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -33,11 +124,10 @@ export async function GET(request: Request) {
 
     return NextResponse.json({
       success: true,
-      products,
+      ...queryProducts(products, query),
       source: "fallback",
       error: error instanceof Error ? error.message : "Unknown error",
       timestamp: new Date().toISOString(),
     });
   }
 }
-
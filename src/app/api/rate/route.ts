@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { fetchAllPrices, getFallbackProducts } from "@/lib/priceService";
+import { productCatalog } from "@/lib/productCatalog";
+import { explainPriceRating } from "@/lib/priceStats";
+import { parseUnit } from "@/lib/units";
+
+export const dynamic = "force-dynamic";
+
+interface RateRequest {
+  productId?: string;
+  variantId?: string; // Rate against one variant's prices instead of the whole product
+  price?: number;
+  packageSize?: string; // e.g. "500 גרם" when the shelf package differs from the catalog unit
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+export async function POST(request: Request) {
+  let body: RateRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest("Body must be JSON");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return badRequest("Body must be a JSON object");
+  }
+
+  const catalogProduct = productCatalog.find((p) => p.id === body.productId);
+  if (!catalogProduct) {
+    return badRequest(`Unknown product: ${body.productId}`);
+  }
+
+  const catalogVariant = body.variantId
+    ? catalogProduct.variants?.find((v) => v.id === body.variantId)
+    : undefined;
+  if (body.variantId && !catalogVariant) {
+    return badRequest(`Unknown variant of product ${catalogProduct.id}: ${body.variantId}`);
+  }
+  const unit = catalogVariant?.unit || catalogProduct.unit;
+
+  const price = Number(body.price);
+  if (!Number.isFinite(price) || price <= 0) {
+    return badRequest("price must be a positive number");
+  }
+
+  // Convert the shelf price to the catalog unit, e.g. a 500g pack against "200 גרם"
+  let normalizedPrice = price;
+  if (body.packageSize) {
+    const pkg = parseUnit(body.packageSize);
+    const target = parseUnit(unit);
+    if (!pkg) {
+      return badRequest(`Unrecognized packageSize: ${body.packageSize}`);
+    }
+    if (target) {
+      if (pkg.kind !== target.kind) {
+        return badRequest(`packageSize must be in the same unit as ${unit}`);
+      }
+      normalizedPrice = Math.round(((price * target.amount) / pkg.amount) * 100) / 100;
+    }
+  }
+
+  let source = "crawled";
+  let products;
+  try {
+    products = await fetchAllPrices();
+  } catch (error) {
+    console.error("Rate API Error:", error);
+    products = getFallbackProducts();
+    source = "fallback";
+  }
+
+  const product = products.find((p) => p.id === catalogProduct.id)!;
+  const variant = product.variants?.find((v) => v.id === catalogVariant?.id);
+
+  return NextResponse.json({
+    success: true,
+    productId: product.id,
+    variantId: variant?.id,
+    unit: variant?.unit || product.unit,
+    ...explainPriceRating(normalizedPrice, variant || product),
+    source,
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import {
   Search,
   Sparkles,
@@ -12,9 +12,22 @@ import {
   TrendingUp,
   Minus,
   ChevronDown,
+  ChevronLeft,
 } from "lucide-react";
 import pricesData from "@/data/prices.json";
-import { categories, type Category } from "@/lib/types";
+import { type PriceSource, type PriceStats, type ProductVariant } from "@/lib/types";
+import {
+  getCategory,
+  getCategoryPath,
+  getChildCategories,
+  isInCategory,
+  type CategoryId,
+} from "@/lib/categories";
+import {
+  getPriceRating,
+  type PriceRating,
+  type RatingExplanation,
+} from "@/lib/priceStats";
 
 interface Product {
   id: string;
@@ -27,20 +40,10 @@ interface Product {
   highPrice: number;
   image: string;
   lastUpdated?: string;
-}
-
-type PriceRating = "great" | "good" | "average" | "high" | "expensive";
-
-function getPriceRating(price: number, product: Product): PriceRating {
-  const range = product.highPrice - product.lowPrice;
-  if (range === 0) return "average";
-  const position = (price - product.lowPrice) / range;
-
-  if (position <= 0.1) return "great";
-  if (position <= 0.35) return "good";
-  if (position <= 0.65) return "average";
-  if (position <= 0.85) return "high";
-  return "expensive";
+  priceSource?: PriceSource;
+  promoPrice?: number;
+  stats?: PriceStats;
+  variants?: ProductVariant[];
 }
 
 const ratingConfig: Record<
@@ -91,10 +94,14 @@ export default function Home() {
   const [isRefreshing, setIsRefreshing] = useState(false);
 
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<Category | "all">("all");
+  const [selectedCategory, setSelectedCategory] = useState<CategoryId | "all">("all");
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [selectedVariantId, setSelectedVariantId] = useState<string | null>(null);
   const [priceInput, setPriceInput] = useState("");
   const [priceRating, setPriceRating] = useState<PriceRating | null>(null);
+  const [ratingExplanation, setRatingExplanation] = useState<RatingExplanation | null>(null);
+  // Counts rating requests, so a response for an earlier price or product is ignored
+  const rateRequestRef = useRef(0);
   const [showFilters, setShowFilters] = useState(false);
 
   const refreshPrices = async () => {
@@ -106,7 +113,7 @@ export default function Home() {
         if (data.success && data.products) {
           setProducts(data.products);
           setDataSource(data.source);
-          setLastUpdated(data.timestamp);
+          setLastUpdated(data.lastUpdated || data.timestamp);
         }
       }
     } catch (error) {
@@ -130,29 +137,95 @@ export default function Home() {
         product.nameHebrew.includes(searchQuery) ||
         product.name.toLowerCase().includes(searchQuery.toLowerCase());
       const matchesCategory =
-        selectedCategory === "all" || product.category === selectedCategory;
+        selectedCategory === "all" || isInCategory(product.category, selectedCategory);
       return matchesSearch && matchesCategory;
     });
   }, [products, searchQuery, selectedCategory]);
 
+  // Drill-down: the path to the selected category, then its subcategories
+  const categoryId = selectedCategory === "all" ? undefined : selectedCategory;
+  const categoryPath = categoryId ? getCategoryPath(categoryId) : [];
+  const subcategories = getChildCategories(categoryId);
+
+  // The variant picked in the bottom sheet, if any - prices and ratings follow it
+  const selectedVariant =
+    selectedProduct?.variants?.find((variant) => variant.id === selectedVariantId) || null;
+  const shownPrices = selectedVariant || selectedProduct;
+
+  // Clear the rating and drop any rating request still in flight
+  const clearRating = () => {
+    rateRequestRef.current++;
+    setPriceRating(null);
+    setRatingExplanation(null);
+  };
+
   const handleProductSelect = (product: Product) => {
     setSelectedProduct(product);
+    setSelectedVariantId(null);
     setPriceInput("");
-    setPriceRating(null);
+    clearRating();
+  };
+
+  const handleVariantSelect = (variantId: string | null) => {
+    setSelectedVariantId(variantId);
+    clearRating();
   };
 
-  const handleCheckPrice = () => {
-    if (!selectedProduct || !priceInput) return;
+  const handleCheckPrice = async () => {
+    if (!selectedProduct || !shownPrices || !priceInput) return;
     const price = parseFloat(priceInput);
     if (isNaN(price) || price <= 0) return;
-    const rating = getPriceRating(price, selectedProduct);
-    setPriceRating(rating);
+
+    // Rate locally right away, then replace with the server's explained rating
+    const request = ++rateRequestRef.current;
+    setPriceRating(getPriceRating(price, shownPrices));
+    setRatingExplanation(null);
+    try {
+      const response = await fetch("/api/rate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          productId: selectedProduct.id,
+          variantId: selectedVariant?.id,
+          price,
+        }),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        if (data.success && request === rateRequestRef.current) {
+          setPriceRating(data.rating);
+          setRatingExplanation(data);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to rate price:", error);
+    }
+  };
+
+  const explanationLines = (explanation: RatingExplanation): string[] => {
+    const lines: string[] = [];
+    if (explanation.sampleCount > 0) {
+      lines.push(
+        `זול מ-${explanation.cheaperThanCount} מתוך ${explanation.sampleCount} מחירים שנבדקו`
+      );
+    }
+    lines.push(`${explanation.percentile}% מהמחירים בשוק זולים יותר`);
+    if (explanation.cheapest) {
+      const { price, storeName, city } = explanation.cheapest;
+      lines.push(`הכי זול: ₪${price.toFixed(1)} ב${storeName}${city ? `, ${city}` : ""}`);
+    }
+    if (explanation.betterPromotion) {
+      const { price, storeName, clubOnly } = explanation.betterPromotion;
+      lines.push(`במבצע: ₪${price.toFixed(1)} ב${storeName}${clubOnly ? " (לחברי מועדון)" : ""}`);
+    }
+    return lines;
   };
 
   const handleClearSelection = () => {
     setSelectedProduct(null);
+    setSelectedVariantId(null);
     setPriceInput("");
-    setPriceRating(null);
+    clearRating();
   };
 
   const formatLastUpdated = (dateStr: string) => {
@@ -248,15 +321,27 @@ export default function Home() {
                 >
                   הכל
                 </button>
-                {categories.map((category) => (
+                {categoryPath.map((category) => (
                   <button
-                    key={category}
-                    onClick={() => setSelectedCategory(category)}
+                    key={category.id}
+                    onClick={() => setSelectedCategory(category.id as CategoryId)}
                     className={`category-pill shrink-0 px-5 py-3 rounded-xl text-sm font-medium ${
-                      selectedCategory === category ? "active" : ""
+                      selectedCategory === category.id ? "active" : ""
                     }`}
                   >
-                    {category}
+                    {category.nameHebrew}
+                  </button>
+                ))}
+                {categoryPath.length > 0 && subcategories.length > 0 && (
+                  <ChevronLeft className="w-4 h-4 text-zinc-600 shrink-0 self-center" />
+                )}
+                {subcategories.map((category) => (
+                  <button
+                    key={category.id}
+                    onClick={() => setSelectedCategory(category.id as CategoryId)}
+                    className="category-pill shrink-0 px-5 py-3 rounded-xl text-sm font-medium"
+                  >
+                    {category.nameHebrew}
                   </button>
                 ))}
               </div>
@@ -267,7 +352,9 @@ export default function Home() {
         {/* Section Header */}
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-bold text-white">
-            {selectedCategory === "all" ? "כל המוצרים" : selectedCategory}
+            {selectedCategory === "all"
+              ? "כל המוצרים"
+              : getCategory(selectedCategory)?.nameHebrew}
           </h2>
           <span className="text-sm text-zinc-500 bg-white/5 px-3 py-1.5 rounded-lg">
             {filteredProducts.length} מוצרים
@@ -300,6 +387,13 @@ export default function Home() {
                 <div className="price-badge inline-block px-3 py-1.5 rounded-lg text-sm font-bold">
                   ~₪{product.averagePrice.toFixed(1)}
                 </div>
+                {product.priceSource && product.priceSource !== "live" && (
+                  <p className="text-[10px] text-amber-500/80 mt-1.5">
+                    {product.priceSource === "estimate"
+                      ? "הערכה"
+                      : `מעודכן ל-${product.lastUpdated ? formatLastUpdated(product.lastUpdated) : "סריקה קודמת"}`}
+                  </p>
+                )}
               </button>
             ))}
           </div>
@@ -307,7 +401,7 @@ export default function Home() {
       </main>
 
       {/* Bottom Sheet for Selected Product */}
-      {selectedProduct && (
+      {selectedProduct && shownPrices && (
         <>
           {/* Backdrop */}
           <div
@@ -331,7 +425,7 @@ export default function Home() {
                     <h2 className="text-2xl font-bold text-white mb-1">
                       {selectedProduct.nameHebrew}
                     </h2>
-                    <p className="text-zinc-500">{selectedProduct.unit}</p>
+                    <p className="text-zinc-500">{shownPrices.unit}</p>
                   </div>
                   <button
                     onClick={handleClearSelection}
@@ -341,28 +435,74 @@ export default function Home() {
                   </button>
                 </div>
 
+                {/* Variant Picker */}
+                {selectedProduct.variants && selectedProduct.variants.length > 0 && (
+                  <div className="mb-4 -mx-5 px-5 overflow-x-auto scrollbar-hide">
+                    <div className="flex gap-2 pb-1">
+                      <button
+                        onClick={() => handleVariantSelect(null)}
+                        className={`category-pill shrink-0 px-4 py-2.5 rounded-xl text-sm font-medium ${
+                          selectedVariant ? "" : "active"
+                        }`}
+                      >
+                        כל הסוגים
+                      </button>
+                      {selectedProduct.variants.map((variant) => (
+                        <button
+                          key={variant.id}
+                          onClick={() => handleVariantSelect(variant.id)}
+                          className={`category-pill shrink-0 px-4 py-2.5 rounded-xl text-sm font-medium ${
+                            selectedVariant?.id === variant.id ? "active" : ""
+                          }`}
+                        >
+                          {variant.nameHebrew}
+                          <span className="block text-[10px] text-zinc-500">
+                            {variant.unit}
+                            {variant.privateLabel
+                              ? " • מותג פרטי"
+                              : variant.brand && ` • ${variant.brand}`}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Price Range - Compact */}
                 <div className="mb-6 p-4 rounded-2xl bg-black/30 border border-white/5">
                   <div className="flex items-center justify-between mb-3">
                     <div className="text-center">
                       <p className="text-xs text-zinc-600 mb-0.5">הכי זול</p>
                       <p className="text-xl font-bold text-emerald-400">
-                        ₪{selectedProduct.lowPrice.toFixed(1)}
+                        ₪{shownPrices.lowPrice.toFixed(1)}
                       </p>
                     </div>
                     <div className="flex-1 mx-4 h-2 price-range-bar rounded-full" />
                     <div className="text-center">
                       <p className="text-xs text-zinc-600 mb-0.5">הכי יקר</p>
                       <p className="text-xl font-bold text-rose-400">
-                        ₪{selectedProduct.highPrice.toFixed(1)}
+                        ₪{shownPrices.highPrice.toFixed(1)}
                       </p>
                     </div>
                   </div>
                   <div className="text-center pt-3 border-t border-white/5">
                     <span className="text-xs text-zinc-600">ממוצע: </span>
                     <span className="text-lg font-semibold text-amber-400">
-                      ₪{selectedProduct.averagePrice.toFixed(1)}
+                      ₪{shownPrices.averagePrice.toFixed(1)}
                     </span>
+                    {shownPrices.promoPrice !== undefined && (
+                      <>
+                        <span className="text-xs text-zinc-600 mr-4">במבצע: </span>
+                        <span className="text-lg font-semibold text-emerald-400">
+                          ₪{shownPrices.promoPrice.toFixed(1)}
+                        </span>
+                      </>
+                    )}
+                    {selectedVariant?.priceSource === "estimate" && (
+                      <p className="text-[10px] text-amber-500/80 mt-1.5">
+                        הערכה לפי המוצר הכללי
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -381,7 +521,7 @@ export default function Home() {
                       value={priceInput}
                       onChange={(e) => {
                         setPriceInput(e.target.value);
-                        setPriceRating(null);
+                        clearRating();
                       }}
                       onKeyDown={(e) => e.key === "Enter" && handleCheckPrice()}
                       className="w-full pr-12 pl-4 py-5 rounded-2xl input-dark text-2xl font-bold text-center"
@@ -409,9 +549,17 @@ export default function Home() {
                         <p className={`text-2xl font-bold ${ratingConfig[priceRating].color}`}>
                           {ratingConfig[priceRating].label}
                         </p>
-                        <p className="text-zinc-400 text-sm mt-0.5">
-                          {ratingConfig[priceRating].message}
-                        </p>
+                        {ratingExplanation ? (
+                          <ul className="text-zinc-400 text-sm mt-0.5 space-y-0.5">
+                            {explanationLines(ratingExplanation).map((line) => (
+                              <li key={line}>{line}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-zinc-400 text-sm mt-0.5">
+                            {ratingConfig[priceRating].message}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
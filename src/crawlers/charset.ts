@@ -0,0 +1,76 @@
+/**
+ * Character Encoding Detection
+ *
+ * Most chains publish UTF-8, but some use windows-1255 or UTF-16. The
+ * encoding is taken from the byte order mark, then the XML declaration,
+ * and decoded text is checked for the tell-tale patterns of Hebrew read
+ * with the wrong charset.
+ */
+
+// Bytes inspected before picking an encoding - enough for any XML declaration
+export const SNIFF_BYTES = 1024;
+
+// Labels some chains use that TextDecoder doesn't know
+const ENCODING_ALIASES: Record<string, string> = {
+  cp1255: "windows-1255",
+  "ms-1255": "windows-1255",
+  "iso-8859-8-i": "iso-8859-8",
+};
+
+/**
+ * Resolve an encoding label to one TextDecoder accepts, or null
+ */
+export function normalizeEncoding(label: string): string | null {
+  const key = label.trim().toLowerCase();
+  try {
+    return new TextDecoder(ENCODING_ALIASES[key] || key).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pick the encoding of an XML file from its first bytes
+ * A byte order mark wins, then UTF-16's zero bytes around "<?", then the
+ * encoding named in the XML declaration; UTF-8 otherwise
+ */
+export function detectEncoding(head: Uint8Array): string {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return "utf-8";
+  if (head[0] === 0xff && head[1] === 0xfe) return "utf-16le";
+  if (head[0] === 0xfe && head[1] === 0xff) return "utf-16be";
+  if (head[0] === 0x3c && head[1] === 0x00 && head[2] === 0x3f && head[3] === 0x00) {
+    return "utf-16le";
+  }
+  if (head[0] === 0x00 && head[1] === 0x3c && head[2] === 0x00 && head[3] === 0x3f) {
+    return "utf-16be";
+  }
+
+  // The declaration itself is plain ASCII in every 8-bit encoding
+  const start = Buffer.from(head.subarray(0, SNIFF_BYTES)).toString("latin1");
+  const declared = start.match(/^\s*<\?xml[^>]*?encoding\s*=\s*["']([\w.:-]+)["']/i)?.[1];
+  const encoding = declared ? normalizeEncoding(declared) : null;
+
+  // A UTF-16 label on 8-bit bytes is wrong - the bytes would show it
+  if (!encoding || encoding.startsWith("utf-16")) return "utf-8";
+  return encoding;
+}
+
+// Signs of Hebrew decoded with the wrong charset
+const GARBLED_PATTERNS = [
+  // Bytes that aren't valid in the chosen encoding (U+FFFD)
+  /\uFFFD/g,
+  // UTF-8 Hebrew read as windows-1252/latin1: "×" before a C1 or symbol char
+  /\u00D7[\u0080-\u00BF\u0152-\u0192\u02C6\u02DC\u2013-\u2122]/g,
+  // UTF-8 Hebrew read as windows-1255: a geresh before every other letter
+  /(?:\u05F3[^\s\u05F3]){3,}/g,
+  // UTF-16 read as an 8-bit encoding, or with the wrong byte order
+  /\u0000/g,
+  /[\u3400-\u9FFF\uAC00-\uD7AF]/g,
+];
+
+/**
+ * Count the places in decoded text that look like mojibake
+ */
+export function countGarbled(text: string): number {
+  return GARBLED_PATTERNS.reduce((count, pattern) => count + (text.match(pattern)?.length || 0), 0);
+}
@@ -0,0 +1,66 @@
+/**
+ * Crawl Reports
+ *
+ * A structured record of every file a chain crawl touched: which files
+ * succeeded, failed or were skipped, with byte counts, item counts and
+ * durations. Reports travel on the CrawlerResult and are saved with it.
+ */
+
+import { CrawlerResult, CrawlFileReport, CrawlReport } from "../lib/types";
+
+/**
+ * Create an empty report for a chain crawl that is starting now
+ */
+export function createCrawlReport(chainId: string): CrawlReport {
+  return {
+    chainId,
+    startedAt: new Date().toISOString(),
+    files: [],
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+    totalBytes: 0,
+    totalItems: 0,
+    garbledFiles: 0,
+  };
+}
+
+/**
+ * Fill in the report's totals and end time
+ */
+export function finishCrawlReport(report: CrawlReport): CrawlReport {
+  const finishedAt = new Date();
+  const count = (status: CrawlFileReport["status"]) =>
+    report.files.filter((file) => file.status === status).length;
+
+  report.finishedAt = finishedAt.toISOString();
+  report.durationMs = finishedAt.getTime() - new Date(report.startedAt).getTime();
+  report.succeeded = count("success");
+  report.failed = count("failed");
+  report.skipped = count("skipped");
+  report.totalBytes = report.files.reduce((sum, file) => sum + file.bytes, 0);
+  report.totalItems = report.files.reduce((sum, file) => sum + file.itemCount, 0);
+  report.garbledFiles = report.files.filter((file) => file.garbledCount).length;
+  return report;
+}
+
+/**
+ * One-line summary of a chain's crawl for the console
+ */
+export function summarizeCrawlReport(result: CrawlerResult): string {
+  const report = result.report;
+  if (!report) return `${result.storeName}: no report`;
+
+  const megabytes = (report.totalBytes / 1024 / 1024).toFixed(1);
+  const seconds = ((report.durationMs || 0) / 1000).toFixed(1);
+  const garbled = report.garbledFiles > 0 ? ` - ⚠️  ${report.garbledFiles} garbled files` : "";
+  const sampled = report.branchLimit
+    ? ` - sampled ${report.branchLimit}/${report.branchesListed} branches`
+    : "";
+  return (
+    `${result.storeName}: ${report.succeeded} ok, ${report.failed} failed, ` +
+    `${report.skipped} skipped - ${megabytes}MB, ${report.totalItems} records in ${seconds}s` +
+    sampled +
+    garbled
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Download Helpers
+ *
+ * Timeouts, retries with exponential backoff and a small concurrency pool
+ * for fetching price transparency files. The chains' servers are slow and
+ * flaky, so every request gets a deadline and a few more chances.
+ */
+
+import { CrawlSource } from "../lib/types";
+import { networkSource } from "./source";
+
+export interface DownloadOptions {
+  source: CrawlSource; // Where requests go - the network unless crawling offline
+  timeoutMs: number; // Deadline for one request, including reading the body
+  retries: number; // Extra attempts after the first failure
+  retryDelayMs: number; // First backoff delay, doubled on every retry
+  concurrency: number; // Files downloaded at the same time per chain
+  maxStores: number; // Branches crawled per chain, 0 for every branch
+}
+
+/**
+ * Read a non-negative number from the environment
+ */
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Every crawled item is held in memory until pricing, so by default only a
+// sample of branches spread across the chain's cities is crawled (see
+// sampleBranches); CRAWL_MAX_STORES=0 crawls them all.
+// Override with CRAWL_TIMEOUT_MS, CRAWL_RETRIES, CRAWL_RETRY_DELAY_MS,
+// CRAWL_CONCURRENCY and CRAWL_MAX_STORES
+export const DEFAULT_DOWNLOAD_OPTIONS: DownloadOptions = {
+  source: networkSource,
+  timeoutMs: envNumber("CRAWL_TIMEOUT_MS", 120_000),
+  retries: envNumber("CRAWL_RETRIES", 2),
+  retryDelayMs: envNumber("CRAWL_RETRY_DELAY_MS", 1_000),
+  concurrency: Math.max(1, envNumber("CRAWL_CONCURRENCY", 3)),
+  maxStores: envNumber("CRAWL_MAX_STORES", 20),
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run a task, retrying failures with exponential backoff
+ * onAttempt is told the attempt number (1-based) before each try
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  options: Pick<DownloadOptions, "retries" | "retryDelayMs"> = DEFAULT_DOWNLOAD_OPTIONS,
+  onAttempt?: (attempt: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    onAttempt?.(attempt);
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt > options.retries) throw error;
+
+      const delay = options.retryDelayMs * 2 ** (attempt - 1);
+      const message = error instanceof Error ? error.message : error;
+      console.warn(`   ⚠️  Attempt ${attempt} failed (${message}), retrying in ${delay}ms...`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Get the download options for a crawl from the given source
+ */
+export function getDownloadOptions(source?: CrawlSource): DownloadOptions {
+  return source ? { ...DEFAULT_DOWNLOAD_OPTIONS, source } : DEFAULT_DOWNLOAD_OPTIONS;
+}
+
+/**
+ * fetch() through the crawl source that aborts when the request (body
+ * included) takes too long
+ */
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit = {},
+  options: Pick<DownloadOptions, "source" | "timeoutMs"> = DEFAULT_DOWNLOAD_OPTIONS
+): Promise<Response> {
+  const { source, timeoutMs } = options;
+  try {
+    return await source.fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      throw new Error(`Timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * fetch() with a timeout, retrying network errors and 5xx responses
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: DownloadOptions = DEFAULT_DOWNLOAD_OPTIONS
+): Promise<Response> {
+  return withRetry(async () => {
+    const response = await fetchWithTimeout(url, init, options);
+    if (response.status >= 500) {
+      throw new Error(`Server error: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }, options);
+}
+
+/**
+ * Run a worker over every item with at most `concurrency` running at once
+ * Results keep the order of the input
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function runWorker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  }
+
+  const workerCount = Math.min(Math.max(1, concurrency), items.length);
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+}
+
+/**
+ * Count the bytes flowing through a stream, failing on an empty file or
+ * when fewer bytes arrive than the server announced (a cut-off download)
+ */
+export async function* checkedByteStream(
+  source: AsyncIterable<Uint8Array>,
+  onBytes: (total: number) => void,
+  expectedBytes?: number
+): AsyncGenerator<Uint8Array> {
+  let total = 0;
+  for await (const chunk of source) {
+    total += chunk.byteLength;
+    onBytes(total);
+    yield chunk;
+  }
+
+  if (total === 0) {
+    throw new Error("Empty file");
+  }
+  if (expectedBytes !== undefined && total !== expectedBytes) {
+    throw new Error(`Size mismatch: got ${total} of ${expectedBytes} bytes`);
+  }
+}
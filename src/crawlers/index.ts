@@ -0,0 +1,98 @@
+/**
+ * Crawler Registry
+ *
+ * All chains we crawl, keyed by chain ID. Add a new chain by implementing
+ * StoreCrawler and listing it here.
+ */
+
+import {
+  CrawlerResult,
+  CrawlSource,
+  Promotion,
+  RawStoreItem,
+  StoreBranch,
+  StoreCrawler,
+} from "../lib/types";
+import { shufersalCrawler } from "./shufersal";
+import { ramiLevyCrawler, yochananofCrawler, osherAdCrawler } from "./publishedPrices";
+import { victoryCrawler } from "./laibCatalog";
+import { createCrawlReport, finishCrawlReport } from "./crawlReport";
+import { getCrawlSource } from "./source";
+
+export const storeCrawlers: StoreCrawler[] = [
+  shufersalCrawler,
+  ramiLevyCrawler,
+  victoryCrawler,
+  yochananofCrawler,
+  osherAdCrawler,
+];
+
+/**
+ * Look up a crawler by chain ID
+ */
+export function getCrawler(chainId: string): StoreCrawler | undefined {
+  return storeCrawlers.find((crawler) => crawler.chainId === chainId);
+}
+
+/**
+ * Get the display name for a chain ID
+ */
+export function getChainName(chainId: string): string {
+  return getCrawler(chainId)?.chainName || chainId;
+}
+
+/**
+ * Crawl the given chains (all registered chains by default) in parallel
+ * A failing chain never fails the others - check each result's success flag
+ * and its report for which files made it
+ * Requests go to the source set by CRAWL_SOURCE (the network by default)
+ */
+export async function crawlAllChains(
+  chainIds: string[] = storeCrawlers.map((crawler) => crawler.chainId),
+  source: CrawlSource = getCrawlSource()
+): Promise<CrawlerResult[]> {
+  const crawlers = chainIds
+    .map((chainId) => getCrawler(chainId))
+    .filter((crawler): crawler is StoreCrawler => crawler !== undefined);
+
+  return Promise.all(
+    crawlers.map(async (crawler) => {
+      const result = await crawler.crawl(source);
+      result.report = finishCrawlReport(result.report || createCrawlReport(result.chainId));
+      return result;
+    })
+  );
+}
+
+/**
+ * Merge successful crawler results into one item list tagged by chain
+ */
+export function mergeCrawlerResults(results: CrawlerResult[]): RawStoreItem[] {
+  return results
+    .filter((result) => result.success)
+    .flatMap((result) => result.items.map((item) => ({ ...item, chainId: result.chainId })));
+}
+
+/**
+ * Merge promotions from successful crawler results, tagged by chain
+ */
+export function mergeCrawlerPromotions(results: CrawlerResult[]): Promotion[] {
+  return results
+    .filter((result) => result.success)
+    .flatMap((result) =>
+      (result.promotions || []).map((promotion) => ({ ...promotion, chainId: result.chainId }))
+    );
+}
+
+/**
+ * Merge branch lists from crawler results, keyed by chain and store ID
+ */
+export function mergeCrawlerStores(results: CrawlerResult[]): Map<string, StoreBranch> {
+  const stores = new Map<string, StoreBranch>();
+  for (const result of results) {
+    for (const store of result.stores || []) {
+      stores.set(`${result.chainId}:${store.storeId}`, { ...store, chainId: result.chainId });
+    }
+  }
+  return stores;
+}
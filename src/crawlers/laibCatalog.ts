@@ -0,0 +1,98 @@
+/**
+ * LaibCatalog Crawler
+ *
+ * Chains hosted on laibcatalog.co.il (e.g. Victory) list their price files
+ * as plain links on a public index page, grouped by chain code.
+ *
+ * Data source: https://laibcatalog.co.il/
+ */
+
+import { CrawlerResult, CrawlSource, StoreCrawler } from "../lib/types";
+import { createCrawlerResult, crawlPriceFiles, getFileType } from "./priceFiles";
+import { DownloadOptions, fetchWithRetry, getDownloadOptions } from "./download";
+
+const LAIB_CATALOG_URL = "https://laibcatalog.co.il/";
+
+interface LaibCatalogChain {
+  chainId: string;
+  chainName: string;
+  // Chain code (GLN) that prefixes the chain's file names
+  chainCode: string;
+}
+
+/**
+ * Extract the chain's price and promo file URLs from the index page
+ */
+async function fetchPriceFileUrls(
+  chain: LaibCatalogChain,
+  options: DownloadOptions
+): Promise<string[]> {
+  console.log(`🔍 Fetching ${chain.chainName} price page...`);
+
+  const response = await fetchWithRetry(
+    LAIB_CATALOG_URL,
+    {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; PriceChecker/1.0)",
+        Accept: "text/html,application/xhtml+xml",
+      },
+    },
+    options
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+  }
+
+  const html = await response.text();
+
+  // Links use Windows-style paths, e.g. CompetitionRegulationsFiles\latest\<code>\PriceFull<code>-...xml.gz
+  const linkRegex = /href="([^"]+\.gz)"/gi;
+  const urls: string[] = [];
+  for (const match of html.matchAll(linkRegex)) {
+    const path = match[1].replace(/\\/g, "/").replace(/&amp;/g, "&");
+    const fileName = path.split("/").pop() || "";
+    if (getFileType(fileName) && fileName.includes(chain.chainCode)) {
+      urls.push(new URL(path, LAIB_CATALOG_URL).toString());
+    }
+  }
+
+  const uniqueUrls = [...new Set(urls)];
+
+  console.log(`📁 Found ${uniqueUrls.length} ${chain.chainName} price files`);
+
+  return uniqueUrls;
+}
+
+/**
+ * Create a crawler for a chain hosted on LaibCatalog
+ */
+export function createLaibCatalogCrawler(chain: LaibCatalogChain): StoreCrawler {
+  async function crawl(source?: CrawlSource): Promise<CrawlerResult> {
+    const result = createCrawlerResult(chain.chainId, chain.chainName);
+    const options = getDownloadOptions(source);
+
+    try {
+      const urls = await fetchPriceFileUrls(chain, options);
+
+      if (urls.length === 0) {
+        throw new Error("No price files found");
+      }
+
+      await crawlPriceFiles(result, urls, undefined, options);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ ${chain.chainName} crawl failed:`, error);
+    }
+
+    return result;
+  }
+
+  return { chainId: chain.chainId, chainName: chain.chainName, crawl };
+}
+
+export const victoryCrawler = createLaibCatalogCrawler({
+  chainId: "victory",
+  chainName: "Victory",
+  chainCode: "7290696200003",
+});
@@ -0,0 +1,129 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createReadStream } from "fs";
+import { join } from "path";
+import { DEFAULT_DOWNLOAD_OPTIONS } from "./download";
+import {
+  createCrawlerResult,
+  crawlPriceFiles,
+  sampleBranches,
+  selectBranchFiles,
+} from "./priceFiles";
+
+const FIXTURE_FILES = join(
+  __dirname,
+  "../../fixtures/shufersal/pricesprodpublic.blob.core.windows.net"
+);
+
+test("takes each branch's latest PriceFull and the updates after it", () => {
+  const { branches, skipped } = selectBranchFiles([
+    "PriceFull7290027600007-001-202401010300.gz",
+    "PriceFull7290027600007-001-202312310300.gz",
+    "Price7290027600007-001-202401010900.gz",
+    "Price7290027600007-001-202401010200.gz",
+  ]);
+
+  assert.equal(branches.length, 1);
+  assert.equal(branches[0].full, "PriceFull7290027600007-001-202401010300.gz");
+  assert.deepEqual(branches[0].updates, ["Price7290027600007-001-202401010900.gz"]);
+  assert.equal(skipped.length, 2);
+});
+
+test("skips a branch that only published updates", () => {
+  const { branches, skipped } = selectBranchFiles([
+    "PriceFull7290027600007-001-202401010300.gz",
+    "Price7290027600007-002-202401010900.gz",
+  ]);
+
+  assert.deepEqual(
+    branches.map((branch) => branch.full),
+    ["PriceFull7290027600007-001-202401010300.gz"]
+  );
+  assert.deepEqual(
+    skipped.map(({ url }) => url),
+    ["Price7290027600007-002-202401010900.gz"]
+  );
+});
+
+test("drops a branch whose PriceFull fails instead of publishing its updates", async () => {
+  const result = createCrawlerResult("shufersal", "Shufersal");
+  const files = [
+    "PriceFull7290027600007-001-202401010300.gz",
+    "Price7290027600007-001-202401011000.gz",
+    "PriceFull7290027600007-002-202401010300.gz",
+    "PromoFull7290027600007-001-202401010300.gz",
+  ];
+  const open = async (url: string) => {
+    if (url === files[0]) throw new Error("Corrupt file");
+    return { body: createReadStream(join(FIXTURE_FILES, url)) };
+  };
+
+  await crawlPriceFiles(result, files, open, { ...DEFAULT_DOWNLOAD_OPTIONS, retries: 0 });
+
+  assert.equal(result.success, true);
+  assert.deepEqual(new Set(result.items.map((item) => item.storeId)), new Set(["2"]));
+  const statuses = result.report?.files.map(({ url, status, error }) => [url, status, error]);
+  assert.deepEqual(statuses?.slice(0, 2), [
+    [files[0], "failed", "Corrupt file"],
+    [files[1], "skipped", "The branch's PriceFull failed"],
+  ]);
+  // The failed branch's promotions aren't crawled either
+  assert.deepEqual(result.promotions, []);
+  assert.equal(result.report?.files.find(({ url }) => url === files[3])?.status, "skipped");
+});
+
+const branch = (storeId: string) => ({
+  storeId,
+  full: `PriceFull7290027600007-${storeId.padStart(3, "0")}-202401010300.gz`,
+  updates: [],
+});
+
+const store = (storeId: string, city: string) => ({ storeId, storeName: "", city, address: "" });
+
+test("samples branches across cities rather than the first listed", () => {
+  const branches = ["1", "2", "3", "4", "5", "6"].map(branch);
+  const stores = [
+    store("1", "תל אביב"),
+    store("2", "תל אביב"),
+    store("3", "תל אביב"),
+    store("4", "חיפה"),
+    store("5", "חיפה"),
+    store("6", "באר שבע"),
+  ];
+
+  assert.deepEqual(
+    sampleBranches(branches, 3, stores).map((branch) => branch.storeId),
+    ["1", "4", "6"]
+  );
+  assert.deepEqual(
+    sampleBranches(branches, 4, stores).map((branch) => branch.storeId),
+    ["1", "4", "6", "2"]
+  );
+});
+
+test("samples evenly through the store IDs without a branch list", () => {
+  const branches = ["10", "2", "7", "1", "5", "3"].map(branch);
+
+  assert.deepEqual(
+    sampleBranches(branches, 3).map((branch) => branch.storeId),
+    ["1", "3", "7"]
+  );
+  assert.equal(sampleBranches(branches, 0).length, 6);
+});
+
+test("reports the branch limit when only a sample is crawled", async () => {
+  const result = createCrawlerResult("shufersal", "Shufersal");
+  const files = [
+    "PriceFull7290027600007-001-202401010300.gz",
+    "PriceFull7290027600007-002-202401010300.gz",
+    "Stores7290027600007-000-202401010201.gz",
+  ];
+  const open = async (url: string) => ({ body: createReadStream(join(FIXTURE_FILES, url)) });
+
+  await crawlPriceFiles(result, files, open, { ...DEFAULT_DOWNLOAD_OPTIONS, maxStores: 1 });
+
+  assert.equal(result.report?.branchesListed, 2);
+  assert.equal(result.report?.branchLimit, 1);
+  assert.equal(result.stores?.length, 2);
+  assert.equal(new Set(result.items.map((item) => item.storeId)).size, 1);
+});
@@ -0,0 +1,632 @@
+/**
+ * Price File Helpers
+ *
+ * Shared download and parsing logic for the gzipped XML price files that
+ * chains publish under the Israeli price transparency law.
+ */
+
+import { createGunzip } from "zlib";
+import { Readable, pipeline } from "stream";
+import {
+  RawStoreItem,
+  CrawlerResult,
+  CrawlFileReport,
+  Promotion,
+  StoreBranch,
+} from "../lib/types";
+import { countGarbled, detectEncoding, SNIFF_BYTES } from "./charset";
+import { createCrawlReport } from "./crawlReport";
+import {
+  checkedByteStream,
+  DEFAULT_DOWNLOAD_OPTIONS,
+  DownloadOptions,
+  fetchWithTimeout,
+  runPool,
+  withRetry,
+} from "./download";
+import { createPromotionParser } from "./promoFiles";
+import { createStoreParser, normalizeStoreId } from "./storeFiles";
+import { createXmlRecordParser, XmlParser, XmlRecord } from "./xmlStream";
+
+// Different chains wrap items as <Items><Item> or <Products><Product>
+const ITEM_TAGS = ["Item", "Product"];
+
+/**
+ * Build a price item from the child values of an <Item> element
+ */
+function toRawStoreItem(record: XmlRecord): RawStoreItem | null {
+  const itemCode = record.itemcode || "";
+  const itemName = record.itemname || record.manufactureritemdescription || "";
+  const unitOfMeasure = record.unitofmeasure || record.quantity || "";
+  const unitPriceStr = record.unitofmeasureprice;
+
+  const itemPrice = parseFloat(record.itemprice) || 0;
+  const quantity = parseFloat(record.quantity || "1") || 1;
+  const unitOfMeasurePrice = unitPriceStr ? parseFloat(unitPriceStr) : undefined;
+
+  if (!itemCode || itemPrice <= 0) return null;
+
+  return {
+    itemCode,
+    itemName,
+    itemPrice,
+    unitOfMeasure,
+    quantity,
+    unitQty: record.unitqty || undefined,
+    unitOfMeasurePrice,
+    isWeighted: record.bisweighted === "1",
+    priceUpdateDate: record.priceupdatedate || "",
+  };
+}
+
+/**
+ * Create a streaming parser that emits price items as they are read
+ */
+export function createPriceItemParser(onItem: (item: RawStoreItem) => void): XmlParser {
+  return createXmlRecordParser(ITEM_TAGS, (record) => {
+    const item = toRawStoreItem(record);
+    if (item) onItem(item);
+  });
+}
+
+/**
+ * Parse XML price data that is already in memory
+ */
+export function parseXMLPrices(xmlContent: string): RawStoreItem[] {
+  const items: RawStoreItem[] = [];
+  const parser = createPriceItemParser((item) => items.push(item));
+  parser.write(xmlContent);
+  parser.end();
+  return items;
+}
+
+/**
+ * Pass bytes through, gunzipping them if the stream starts with the gzip
+ * magic bytes (0x1f 0x8b)
+ */
+async function* decompressIfGzipped(source: AsyncIterable<Uint8Array>): AsyncGenerator<Buffer> {
+  const iterator = source[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  if (first.done) return;
+  const head = Buffer.from(first.value);
+
+  async function* replay(): AsyncGenerator<Buffer> {
+    yield head;
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield Buffer.from(next.value);
+    }
+  }
+
+  if (head[0] === 0x1f && head[1] === 0x8b) {
+    const gunzip = pipeline(Readable.from(replay()), createGunzip(), () => {});
+    for await (const chunk of gunzip) {
+      yield chunk as Buffer;
+    }
+    return;
+  }
+
+  // Already plain text
+  yield* replay();
+}
+
+// How a file's text was decoded
+export interface DecodedText {
+  encoding: string;
+  garbledCount: number; // Places where the text looks like mojibake
+}
+
+/**
+ * Stream a (possibly gzipped) XML file into a parser
+ * The encoding is detected from the file's first bytes
+ */
+export async function streamXml(
+  source: AsyncIterable<Uint8Array>,
+  parser: XmlParser
+): Promise<DecodedText> {
+  let decoder: TextDecoder | null = null;
+  let head = Buffer.alloc(0);
+  let garbledCount = 0;
+
+  const write = (text: string) => {
+    garbledCount += countGarbled(text);
+    parser.write(text);
+  };
+
+  for await (const chunk of decompressIfGzipped(source)) {
+    if (decoder) {
+      write(decoder.decode(chunk, { stream: true }));
+      continue;
+    }
+    // Hold the first bytes back until there are enough to detect the encoding
+    head = Buffer.concat([head, chunk]);
+    if (head.length >= SNIFF_BYTES) {
+      decoder = new TextDecoder(detectEncoding(head));
+      write(decoder.decode(head, { stream: true }));
+    }
+  }
+
+  if (!decoder) {
+    decoder = new TextDecoder(detectEncoding(head));
+    write(decoder.decode(head, { stream: true }));
+  }
+  write(decoder.decode());
+  parser.end();
+
+  return { encoding: decoder.encoding, garbledCount };
+}
+
+// A file opened for reading; size is the byte length the server announced
+export interface PriceFileStream {
+  body: AsyncIterable<Uint8Array>;
+  size?: number;
+}
+
+export type OpenPriceFile = (url: string) => Promise<PriceFileStream>;
+
+/**
+ * Open a price file from the crawl source as a byte stream
+ */
+export async function openPriceFile(
+  url: string,
+  headers: Record<string, string> = {},
+  options: DownloadOptions = DEFAULT_DOWNLOAD_OPTIONS
+): Promise<PriceFileStream> {
+  const response = await fetchWithTimeout(
+    url,
+    {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; PriceChecker/1.0)",
+        Accept: "application/gzip, */*",
+        ...headers,
+      },
+    },
+    options
+  );
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Download failed: ${response.status}`);
+  }
+
+  // Content-Length counts the encoded bytes, which fetch decodes away
+  const length = Number(response.headers.get("content-length"));
+  const encoded = response.headers.has("content-encoding");
+
+  return {
+    body: response.body as unknown as AsyncIterable<Uint8Array>,
+    size: length > 0 && !encoded ? length : undefined,
+  };
+}
+
+/**
+ * Extract the store (branch) ID from a price file name or URL
+ * e.g. PriceFull7290027600007-001-202401010300.gz → "001"
+ */
+export function extractStoreId(fileName: string): string | null {
+  const match = fileName.match(/(?:Price|Promo)(?:Full)?\d+-(\d+)-/i);
+  return match ? normalizeStoreId(match[1]) : null;
+}
+
+/**
+ * Get a file's publish time from its name as a sortable YYYYMMDDHHMMSS string
+ * e.g. PriceFull7290027600007-001-202401010300.gz → "20240101030000"
+ */
+export function getFileTimestamp(url: string): string | null {
+  const fileName = decodeURIComponent(url.split("?")[0].split("/").pop() || "");
+  const match = fileName.match(/-(\d{12}|\d{14})(?=[.-]|$)/);
+  return match ? match[1].padEnd(14, "0") : null;
+}
+
+/**
+ * Check whether a file is a full snapshot (PriceFull/PromoFull) rather
+ * than an update
+ */
+export function isFullFile(url: string): boolean {
+  const fileName = decodeURIComponent(url.split("?")[0].split("/").pop() || "");
+  return /^(Price|Promo)Full/i.test(fileName);
+}
+
+/**
+ * Order files newest first, files without a timestamp last
+ */
+function byNewest(a: string, b: string): number {
+  return (getFileTimestamp(b) || "").localeCompare(getFileTimestamp(a) || "");
+}
+
+// The price files that make up one branch's current prices
+export interface BranchFiles {
+  storeId: string | null;
+  full: string; // Latest PriceFull
+  updates: string[]; // Price files newer than it, oldest first
+}
+
+/**
+ * Pick each branch's latest PriceFull and the Price updates published
+ * after it. Everything else is returned as skipped, with the reason -
+ * including branches with only updates, which hold just the prices that
+ * changed and would pass for the branch's whole range.
+ */
+export function selectBranchFiles(urls: string[]): {
+  branches: BranchFiles[];
+  skipped: { url: string; reason: string }[];
+} {
+  const byStore = new Map<string, string[]>();
+  for (const url of urls.filter((url) => getFileType(url) === "price")) {
+    // Files we can't tie to a branch are kept as branches of their own
+    const key = extractStoreId(url) ?? url;
+    byStore.set(key, [...(byStore.get(key) || []), url]);
+  }
+
+  const branches: BranchFiles[] = [];
+  const skipped: { url: string; reason: string }[] = [];
+
+  for (const files of byStore.values()) {
+    const [full, ...olderFulls] = files.filter(isFullFile).sort(byNewest);
+    if (!full) {
+      for (const url of files) {
+        skipped.push({ url, reason: "No PriceFull for this branch, only updates" });
+      }
+      continue;
+    }
+
+    const since = getFileTimestamp(full) || "";
+    const updates: string[] = [];
+
+    for (const url of olderFulls) {
+      skipped.push({ url, reason: "Superseded by a newer PriceFull" });
+    }
+    for (const url of files.filter((url) => !isFullFile(url))) {
+      if ((getFileTimestamp(url) || "") > since) {
+        updates.push(url);
+      } else {
+        skipped.push({ url, reason: "Older than the branch's PriceFull" });
+      }
+    }
+
+    branches.push({
+      storeId: extractStoreId(files[0]),
+      full,
+      updates: updates.sort(byNewest).reverse(),
+    });
+  }
+
+  return { branches, skipped };
+}
+
+/**
+ * Classify a price transparency file by its name
+ */
+export function getFileType(url: string): "price" | "promo" | "stores" | null {
+  const fileName = decodeURIComponent(url.split("?")[0].split("/").pop() || "");
+  if (/^Price(Full)?\d/i.test(fileName)) return "price";
+  if (/^Promo(Full)?\d/i.test(fileName)) return "promo";
+  if (/^Stores\d/i.test(fileName)) return "stores";
+  return null;
+}
+
+/**
+ * Create an empty result for a chain crawl
+ */
+export function createCrawlerResult(chainId: string, storeName: string): CrawlerResult {
+  return {
+    success: false,
+    chainId,
+    storeName,
+    items: [],
+    fetchedAt: new Date().toISOString(),
+    report: createCrawlReport(chainId),
+  };
+}
+
+/**
+ * Record a file that was deliberately not downloaded
+ */
+function skipFile(result: CrawlerResult, url: string, reason: string): void {
+  result.report?.files.push({
+    url,
+    fileType: getFileType(url) || "price",
+    storeId: extractStoreId(url) || undefined,
+    status: "skipped",
+    bytes: 0,
+    itemCount: 0,
+    attempts: 0,
+    durationMs: 0,
+    error: reason,
+  });
+}
+
+/**
+ * Download and parse one file, retrying failures, and record the outcome
+ * in the crawl report. Records are collected afresh on every attempt, so a
+ * failed attempt never leaves half a file behind. Returns null on failure.
+ */
+async function crawlFile<T>(
+  result: CrawlerResult,
+  url: string,
+  open: OpenPriceFile,
+  options: DownloadOptions,
+  createParser: (onRecord: (record: T) => void) => XmlParser
+): Promise<T[] | null> {
+  const started = Date.now();
+  const file: CrawlFileReport = {
+    url,
+    fileType: getFileType(url) || "price",
+    storeId: extractStoreId(url) || undefined,
+    status: "failed",
+    bytes: 0,
+    itemCount: 0,
+    attempts: 0,
+    durationMs: 0,
+  };
+  let records: T[] | null = null;
+
+  try {
+    records = await withRetry(
+      async () => {
+        const stream = await open(url);
+        const parsed: T[] = [];
+        const decoded = await streamXml(
+          checkedByteStream(stream.body, (bytes) => (file.bytes = bytes), stream.size),
+          createParser((record) => parsed.push(record))
+        );
+        file.encoding = decoded.encoding;
+        file.garbledCount = decoded.garbledCount || undefined;
+        return parsed;
+      },
+      options,
+      (attempt) => {
+        file.attempts = attempt;
+        file.bytes = 0;
+      }
+    );
+    file.itemCount = records.length;
+    file.status = "success";
+    if (file.garbledCount) {
+      console.warn(
+        `   ⚠️  ${file.fileType} file ${file.storeId || url} decoded as ${file.encoding} ` +
+          `but has ${file.garbledCount} garbled spots - check its encoding`
+      );
+    }
+  } catch (error) {
+    file.error = error instanceof Error ? error.message : String(error);
+    console.error(`   ❌ Failed ${file.fileType} file ${file.storeId || url}:`, file.error);
+  }
+
+  file.durationMs = Date.now() - started;
+  result.report?.files.push(file);
+  return records;
+}
+
+/**
+ * Download and parse the promotion files for the given stores
+ */
+async function crawlPromoFiles(
+  result: CrawlerResult,
+  urls: string[],
+  storeIds: Set<string>,
+  open: OpenPriceFile,
+  options: DownloadOptions
+): Promise<void> {
+  // One promo file per store: the latest PromoFull (all active promotions),
+  // or the latest update when the store has none
+  const promoUrls = new Map<string, string>();
+  const sorted = [...urls]
+    .sort(byNewest)
+    .sort((a, b) => Number(isFullFile(b)) - Number(isFullFile(a)));
+  for (const url of sorted) {
+    const storeId = extractStoreId(url);
+    if (!storeId || !storeIds.has(storeId)) {
+      skipFile(result, url, "Store not crawled");
+    } else if (promoUrls.has(storeId)) {
+      skipFile(result, url, "Another promo file chosen for this store");
+    } else {
+      promoUrls.set(storeId, url);
+    }
+  }
+
+  console.log(`🏷️  Downloading ${result.storeName} promotions for ${promoUrls.size} stores`);
+  const perStore = await runPool(Array.from(promoUrls), options.concurrency, ([storeId, url]) =>
+    crawlFile<Promotion>(result, url, open, options, (onPromotion) => {
+      let count = 0;
+      return createPromotionParser((promotion) =>
+        onPromotion({
+          ...promotion,
+          promotionId: promotion.promotionId || `${storeId}-${count++}`,
+          storeIds: [storeId],
+        })
+      );
+    })
+  );
+
+  // A chain-wide promotion is repeated in every store's file - keep one,
+  // with every store it was published for
+  const promotions = new Map<string, Promotion>();
+  for (const promotion of perStore.flatMap((list) => list || [])) {
+    const existing = promotions.get(promotion.promotionId);
+    if (existing) {
+      existing.storeIds = [...(existing.storeIds || []), ...(promotion.storeIds || [])];
+    } else {
+      promotions.set(promotion.promotionId, promotion);
+    }
+  }
+
+  result.promotions = Array.from(promotions.values());
+  console.log(`   ✅ Parsed ${result.promotions.length} promotions`);
+}
+
+/**
+ * Pick up to limit branches spread across the chain's cities, rather than
+ * whichever the listing happens to name first: one branch per city in
+ * turn, the cities with the most branches first. Without a branch list the
+ * branches are taken evenly through the store ID order.
+ */
+export function sampleBranches(
+  branches: BranchFiles[],
+  limit: number,
+  stores: StoreBranch[] = []
+): BranchFiles[] {
+  if (limit <= 0 || branches.length <= limit) return branches;
+
+  const sorted = [...branches].sort((a, b) =>
+    (a.storeId || "").localeCompare(b.storeId || "", undefined, { numeric: true })
+  );
+  const cities = new Map(stores.map((store) => [store.storeId, store.city.trim()]));
+  const byCity = new Map<string, BranchFiles[]>();
+  for (const branch of sorted) {
+    const city = cities.get(branch.storeId || "") || "";
+    byCity.set(city, [...(byCity.get(city) || []), branch]);
+  }
+
+  if (byCity.size === 1) {
+    return Array.from({ length: limit }, (_, i) => sorted[Math.floor((i * sorted.length) / limit)]);
+  }
+
+  const queues = Array.from(byCity.values()).sort((a, b) => b.length - a.length);
+  const sample: BranchFiles[] = [];
+  for (let round = 0; sample.length < limit; round++) {
+    for (const queue of queues) {
+      if (round < queue.length && sample.length < limit) sample.push(queue[round]);
+    }
+  }
+  return sample;
+}
+
+/**
+ * Download and parse the chain's branch list
+ */
+async function crawlStoresFile(
+  result: CrawlerResult,
+  url: string,
+  open: OpenPriceFile,
+  options: DownloadOptions
+): Promise<void> {
+  console.log(`🏬 Downloading ${result.storeName} branch list...`);
+  const stores = await crawlFile<StoreBranch>(result, url, open, options, createStoreParser);
+
+  if (stores) {
+    result.stores = stores;
+    console.log(`   ✅ Parsed ${stores.length} branches`);
+  }
+}
+
+/**
+ * Download a branch's PriceFull and apply its Price updates on top
+ * Items are keyed by item code, so a later update replaces the price.
+ * Without the PriceFull the updates are only part of the branch's prices,
+ * so the branch is dropped (returns null) and its updates skipped.
+ */
+async function crawlBranch(
+  result: CrawlerResult,
+  branch: BranchFiles,
+  open: OpenPriceFile,
+  options: DownloadOptions
+): Promise<RawStoreItem[] | null> {
+  const { storeId } = branch;
+  const crawlPrices = (url: string) =>
+    crawlFile<RawStoreItem>(result, url, open, options, (onItem) =>
+      createPriceItemParser((item) => onItem(storeId ? { ...item, storeId } : item))
+    );
+
+  console.log(
+    `📥 Downloading ${result.storeName} store ${storeId || "?"} ` +
+      `(full + ${branch.updates.length} updates)...`
+  );
+
+  const fullItems = await crawlPrices(branch.full);
+  if (!fullItems) {
+    for (const url of branch.updates) {
+      skipFile(result, url, "The branch's PriceFull failed");
+    }
+    return null;
+  }
+
+  const items = new Map(fullItems.map((item) => [item.itemCode, item]));
+  for (const url of branch.updates) {
+    for (const item of (await crawlPrices(url)) || []) {
+      items.set(item.itemCode, item);
+    }
+  }
+
+  return Array.from(items.values());
+}
+
+/**
+ * Download and parse a chain's price, promo and stores files into the given result
+ * Every branch gets its latest PriceFull plus the newer Price updates, and
+ * every branch's price is kept so the spread between branches survives.
+ * Branches are downloaded a few at a time, and each file's outcome is
+ * recorded in result.report. With options.maxStores set, only a sample of
+ * branches spread across cities is crawled (see sampleBranches).
+ */
+export async function crawlPriceFiles(
+  result: CrawlerResult,
+  urls: string[],
+  open?: OpenPriceFile,
+  options: DownloadOptions = DEFAULT_DOWNLOAD_OPTIONS
+): Promise<CrawlerResult> {
+  const openFile = open || ((url: string) => openPriceFile(url, {}, options));
+  const { branches, skipped } = selectBranchFiles(urls);
+  for (const { url, reason } of skipped) {
+    skipFile(result, url, reason);
+  }
+
+  // The branch list comes first, so a sample of branches can be spread
+  // across cities
+  const [storesUrl, ...olderStoresUrls] = urls
+    .filter((url) => getFileType(url) === "stores")
+    .sort(byNewest);
+  for (const url of olderStoresUrls) {
+    skipFile(result, url, "Superseded by a newer stores file");
+  }
+  if (storesUrl) {
+    await crawlStoresFile(result, storesUrl, openFile, options);
+  }
+
+  const branchesToCrawl = sampleBranches(branches, options.maxStores, result.stores);
+  const sampled = new Set(branchesToCrawl);
+  for (const branch of branches.filter((branch) => !sampled.has(branch))) {
+    for (const url of [branch.full, ...branch.updates]) {
+      skipFile(result, url, "Store limit reached");
+    }
+  }
+  if (result.report) {
+    result.report.branchesListed = branches.length;
+    if (sampled.size < branches.length) result.report.branchLimit = sampled.size;
+  }
+
+  console.log(
+    `🏪 Crawling ${branchesToCrawl.length}/${branches.length} ${result.storeName} branches`
+  );
+  const perBranch = await runPool(branchesToCrawl, options.concurrency, (branch) =>
+    crawlBranch(result, branch, openFile, options)
+  );
+
+  const crawledStoreIds = new Set<string>();
+  let successCount = 0;
+  perBranch.forEach((items, i) => {
+    if (!items || items.length === 0) return;
+    result.items.push(...items);
+    const { storeId } = branchesToCrawl[i];
+    if (storeId) crawledStoreIds.add(storeId);
+    successCount++;
+  });
+  console.log(`   ✅ Parsed ${result.items.length} items`);
+
+  result.success = successCount > 0 && result.items.length > 0;
+
+  const promoUrls = urls.filter((url) => getFileType(url) === "promo");
+  if (result.success && promoUrls.length > 0) {
+    await crawlPromoFiles(result, promoUrls, crawledStoreIds, openFile, options);
+  } else {
+    for (const url of promoUrls) {
+      skipFile(result, url, "No prices crawled");
+    }
+  }
+
+  console.log(`\n🎉 ${result.storeName} crawl complete!`);
+  console.log(`   Crawled ${successCount}/${branchesToCrawl.length} branches`);
+  const uniqueCodes = new Set(result.items.map((item) => item.itemCode));
+  console.log(`   Found ${uniqueCodes.size} unique products (${result.items.length} branch prices)`);
+  console.log(`   Found ${result.promotions?.length || 0} promotions`);
+
+  return result;
+}
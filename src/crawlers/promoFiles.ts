@@ -0,0 +1,115 @@
+/**
+ * Promotion File Parser
+ *
+ * Parses the PromoFull/Promo files chains publish next to their price
+ * files. Each <Promotion> lists its deal terms and the items it covers.
+ */
+
+import { Promotion } from "../lib/types";
+import { createXmlParser, XmlParser } from "./xmlStream";
+
+// ClubId 0 means the promotion is open to all customers
+const ALL_CUSTOMERS_CLUB_ID = "0";
+
+/**
+ * Combine a promo date and hour ("2024-01-01", "08:00") into a local ISO timestamp
+ */
+function toTimestamp(date?: string, hour?: string): string | undefined {
+  if (!date) return undefined;
+  const day = date.trim().replace(" ", "T").split("T")[0];
+  const time = (hour || "00:00:00").trim();
+  return `${day}T${time.length === 5 ? `${time}:00` : time}`;
+}
+
+/**
+ * Parse a discount rate, which chains write as percent ("20") or in
+ * hundredths of a percent ("2000")
+ */
+function parseDiscountRate(value?: string): number | undefined {
+  const rate = value ? parseFloat(value) : NaN;
+  if (!Number.isFinite(rate) || rate <= 0) return undefined;
+  return rate > 100 ? rate / 100 : rate;
+}
+
+/**
+ * Create a streaming parser that emits promotions as they are read
+ */
+export function createPromotionParser(onPromotion: (promotion: Promotion) => void): XmlParser {
+  let fields: Record<string, string> | null = null;
+  let clubIds: string[] = [];
+  let itemCodes: string[] = [];
+  let itemCode = "";
+  let isGift = false;
+  let text = "";
+
+  return createXmlParser({
+    onOpenTag(name) {
+      const tag = name.toLowerCase();
+      text = "";
+
+      if (tag === "promotion") {
+        fields = {};
+        clubIds = [];
+        itemCodes = [];
+      } else if (fields && tag === "item") {
+        itemCode = "";
+        isGift = false;
+      }
+    },
+    onText(chunk) {
+      if (fields) text += chunk;
+    },
+    onCloseTag(name) {
+      const tag = name.toLowerCase();
+      if (!fields) return;
+
+      const value = text.trim();
+      text = "";
+
+      switch (tag) {
+        case "promotion": {
+          const discountedPrice = parseFloat(fields.discountedprice);
+          onPromotion({
+            promotionId: fields.promotionid || "",
+            description: fields.promotiondescription || "",
+            itemCodes,
+            minQuantity: parseFloat(fields.minqty) || 1,
+            discountedPrice: discountedPrice > 0 ? discountedPrice : undefined,
+            discountRate: parseDiscountRate(fields.discountrate),
+            startDate: toTimestamp(fields.promotionstartdate, fields.promotionstarthour),
+            endDate: toTimestamp(fields.promotionenddate, fields.promotionendhour),
+            clubOnly: clubIds.length > 0 && !clubIds.includes(ALL_CUSTOMERS_CLUB_ID),
+          });
+          fields = null;
+          break;
+        }
+        case "item":
+          // Gift items are handed out free with the deal, not discounted
+          if (itemCode && !isGift) itemCodes.push(itemCode);
+          break;
+        case "itemcode":
+          itemCode = value;
+          break;
+        case "isgiftitem":
+          isGift = value === "1";
+          break;
+        case "clubid":
+          if (value) clubIds.push(value);
+          break;
+        default:
+          if (value) fields[tag] = value;
+      }
+    },
+  });
+}
+
+/**
+ * Parse promotion XML that is already in memory
+ */
+export function parseXMLPromotions(xmlContent: string): Promotion[] {
+  const promotions: Promotion[] = [];
+  const parser = createPromotionParser((promotion) => promotions.push(promotion));
+  parser.write(xmlContent);
+  parser.end();
+  return promotions;
+}
@@ -0,0 +1,193 @@
+/**
+ * PublishedPrices (Cerberus) Crawler
+ *
+ * Several chains publish their price files on the shared Cerberus file
+ * server at url.publishedprices.co.il. Each chain has its own login user
+ * (no password), and the file list is served as JSON after signing in.
+ *
+ * Data source: https://url.publishedprices.co.il/
+ */
+
+import { CrawlerResult, CrawlSource, StoreCrawler } from "../lib/types";
+import { createCrawlerResult, crawlPriceFiles, openPriceFile, getFileType } from "./priceFiles";
+import { DownloadOptions, fetchWithRetry, getDownloadOptions } from "./download";
+
+const PUBLISHED_PRICES_URL = "https://url.publishedprices.co.il";
+
+interface PublishedPricesChain {
+  chainId: string;
+  chainName: string;
+  username: string;
+}
+
+interface Session {
+  cookie: string;
+  csrfToken: string;
+}
+
+/**
+ * Merge Set-Cookie headers into a Cookie header value
+ */
+function mergeCookies(existing: string, response: Response): string {
+  const cookies = new Map<string, string>();
+  for (const pair of existing.split(/;\s*/).filter(Boolean)) {
+    const [name, ...value] = pair.split("=");
+    cookies.set(name, value.join("="));
+  }
+  for (const header of response.headers.getSetCookie()) {
+    const [pair] = header.split(";");
+    const [name, ...value] = pair.split("=");
+    cookies.set(name.trim(), value.join("="));
+  }
+  return Array.from(cookies, ([name, value]) => `${name}=${value}`).join("; ");
+}
+
+/**
+ * Read the CSRF token Cerberus embeds in every page
+ */
+function extractCsrfToken(html: string): string {
+  const match = html.match(/name="csrftoken"\s+content="([^"]+)"/);
+  if (!match) {
+    throw new Error("CSRF token not found");
+  }
+  return match[1];
+}
+
+/**
+ * Sign in as the chain's public user
+ */
+async function login(username: string, options: DownloadOptions): Promise<Session> {
+  const loginPage = await fetchWithRetry(`${PUBLISHED_PRICES_URL}/login`, {}, options);
+  if (!loginPage.ok) {
+    throw new Error(`Failed to fetch: ${loginPage.status} ${loginPage.statusText}`);
+  }
+
+  let cookie = mergeCookies("", loginPage);
+  const loginToken = extractCsrfToken(await loginPage.text());
+
+  const loginResponse = await fetchWithRetry(
+    `${PUBLISHED_PRICES_URL}/login/user`,
+    {
+      method: "POST",
+      redirect: "manual",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Cookie: cookie,
+      },
+      body: new URLSearchParams({
+        r: "",
+        username,
+        password: "",
+        Submit: "Sign in",
+        csrftoken: loginToken,
+      }).toString(),
+    },
+    options
+  );
+  cookie = mergeCookies(cookie, loginResponse);
+
+  // The file page carries a fresh token for the signed-in session
+  const filePage = await fetchWithRetry(
+    `${PUBLISHED_PRICES_URL}/file`,
+    {
+      headers: { Cookie: cookie },
+    },
+    options
+  );
+  if (!filePage.ok) {
+    throw new Error(`Login failed: ${filePage.status}`);
+  }
+  cookie = mergeCookies(cookie, filePage);
+
+  return { cookie, csrfToken: extractCsrfToken(await filePage.text()) };
+}
+
+/**
+ * List the price and promo file URLs available to the session
+ */
+async function fetchPriceFileUrls(session: Session, options: DownloadOptions): Promise<string[]> {
+  const response = await fetchWithRetry(
+    `${PUBLISHED_PRICES_URL}/file/json/dir`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Cookie: session.cookie,
+      },
+      body: new URLSearchParams({
+        sEcho: "1",
+        iDisplayStart: "0",
+        iDisplayLength: "100000",
+        sSearch: "",
+        cd: "/",
+        csrftoken: session.csrfToken,
+      }).toString(),
+    },
+    options
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to list files: ${response.status}`);
+  }
+
+  const data = (await response.json()) as { aaData?: { fname: string }[] };
+  const fileNames = (data.aaData || [])
+    .map((entry) => entry.fname)
+    .filter((name) => /\.gz$/i.test(name) && getFileType(name) !== null);
+
+  return fileNames.map((name) => `${PUBLISHED_PRICES_URL}/file/d/${encodeURIComponent(name)}`);
+}
+
+/**
+ * Create a crawler for a chain hosted on PublishedPrices
+ */
+export function createPublishedPricesCrawler(chain: PublishedPricesChain): StoreCrawler {
+  async function crawl(source?: CrawlSource): Promise<CrawlerResult> {
+    const result = createCrawlerResult(chain.chainId, chain.chainName);
+    const options = getDownloadOptions(source);
+
+    try {
+      console.log(`🔍 Signing in to PublishedPrices as ${chain.username}...`);
+      const session = await login(chain.username, options);
+      const urls = await fetchPriceFileUrls(session, options);
+
+      console.log(`📁 Found ${urls.length} ${chain.chainName} price files`);
+
+      if (urls.length === 0) {
+        throw new Error("No price files found");
+      }
+
+      await crawlPriceFiles(
+        result,
+        urls,
+        (url) => openPriceFile(url, { Cookie: session.cookie }, options),
+        options
+      );
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ ${chain.chainName} crawl failed:`, error);
+    }
+
+    return result;
+  }
+
+  return { chainId: chain.chainId, chainName: chain.chainName, crawl };
+}
+
+export const ramiLevyCrawler = createPublishedPricesCrawler({
+  chainId: "rami-levy",
+  chainName: "Rami Levy",
+  username: "RamiLevi",
+});
+
+export const yochananofCrawler = createPublishedPricesCrawler({
+  chainId: "yochananof",
+  chainName: "Yochananof",
+  username: "yohananof",
+});
+
+export const osherAdCrawler = createPublishedPricesCrawler({
+  chainId: "osher-ad",
+  chainName: "Osher Ad",
+  username: "osherad",
+});
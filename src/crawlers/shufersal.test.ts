@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { join } from "path";
+import { crawlShufersal } from "./shufersal";
+import { createDirectorySource } from "./source";
+
+// Two branches' PriceFull files, a price update and a promo file for
+// branch 001, and the branch list, as the listing pages link to them
+const FIXTURE_DIR = join(__dirname, "../../fixtures/shufersal");
+
+const MILK = "7290000042442";
+
+test("crawls the saved listing and price files", async () => {
+  const result = await crawlShufersal(createDirectorySource(FIXTURE_DIR));
+
+  assert.equal(result.success, true, result.error);
+  assert.equal(result.report?.failed, 0);
+  assert.deepEqual(
+    result.items.map((item) => `${item.storeId}:${item.itemCode}`).sort(),
+    [
+      "1:7290000012346",
+      "1:7290000042442",
+      "1:7290000056784",
+      "2:7290000012346",
+      "2:7290000042442",
+    ]
+  );
+});
+
+test("applies a branch's price updates over its PriceFull", async () => {
+  const result = await crawlShufersal(createDirectorySource(FIXTURE_DIR));
+  const milk = result.items.filter((item) => item.itemCode === MILK);
+
+  assert.equal(milk.find((item) => item.storeId === "1")?.itemPrice, 6.5);
+  assert.equal(milk.find((item) => item.storeId === "2")?.itemPrice, 7.2);
+  assert.equal(milk[0].itemName, "חלב 3% בקרטון 1 ליטר");
+});
+
+test("reads promotions and the branch list", async () => {
+  const result = await crawlShufersal(createDirectorySource(FIXTURE_DIR));
+
+  assert.equal(result.promotions?.length, 1);
+  const [promotion] = result.promotions!;
+  assert.deepEqual(promotion.itemCodes, [MILK]);
+  assert.deepEqual(promotion.storeIds, ["1"]);
+  assert.equal(promotion.minQuantity, 2);
+  assert.equal(promotion.discountedPrice, 12);
+  assert.equal(promotion.clubOnly, false);
+
+  assert.deepEqual(
+    result.stores?.map((store) => [store.storeId, store.city]),
+    [
+      ["1", "תל אביב"],
+      ["2", "ירושלים"],
+    ]
+  );
+});
@@ -7,74 +7,48 @@
  * Data source: https://prices.shufersal.co.il/
  */
 
-import { gunzipSync } from "zlib";
-import { RawStoreItem, CrawlerResult } from "../lib/types";
+import { CrawlerResult, CrawlSource, StoreCrawler } from "../lib/types";
+import {
+  createCrawlerResult,
+  crawlPriceFiles,
+  getFileTimestamp,
+  selectBranchFiles,
+} from "./priceFiles";
+import { DownloadOptions, fetchWithRetry, getDownloadOptions } from "./download";
 
 // Shufersal's price transparency page
 const SHUFERSAL_URL = "https://prices.shufersal.co.il/";
 
-/**
- * Parse XML price data from Shufersal
- * The XML structure contains Items with price information
- */
-function parseXMLPrices(xmlContent: string): RawStoreItem[] {
-  const items: RawStoreItem[] = [];
-
-  // Match all <Item> elements
-  const itemMatches = xmlContent.match(/<Item>[\s\S]*?<\/Item>/gi) || [];
-
-  for (const itemXml of itemMatches) {
-    try {
-      const getTagValue = (tag: string): string => {
-        const match = itemXml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`, "i"));
-        return match ? match[1].trim() : "";
-      };
-
-      const itemCode = getTagValue("ItemCode");
-      const itemName = getTagValue("ItemName");
-      const priceStr = getTagValue("ItemPrice");
-      const unitOfMeasure = getTagValue("UnitOfMeasure") || getTagValue("Quantity");
-      const quantityStr = getTagValue("Quantity") || "1";
-      const unitPriceStr = getTagValue("UnitOfMeasurePrice");
-      const priceUpdateDate = getTagValue("PriceUpdateDate");
-
-      const itemPrice = parseFloat(priceStr) || 0;
-      const quantity = parseFloat(quantityStr) || 1;
-      const unitOfMeasurePrice = unitPriceStr ? parseFloat(unitPriceStr) : undefined;
-
-      if (itemCode && itemPrice > 0) {
-        items.push({
-          itemCode,
-          itemName,
-          itemPrice,
-          unitOfMeasure,
-          quantity,
-          unitOfMeasurePrice,
-          priceUpdateDate,
-        });
-      }
-    } catch {
-      continue;
-    }
-  }
+// Paged file listing, filtered by category (catID) and branch (storeId, 0 for all)
+const LISTING_URL = `${SHUFERSAL_URL}FileObject/UpdateCategory`;
 
-  return items;
-}
+// The listing's file categories
+const CATEGORIES = {
+  price: 1,
+  priceFull: 2,
+  promoFull: 4,
+  stores: 5,
+};
+
+// Safety stop for a listing that never runs out of pages
+const MAX_LISTING_PAGES = 500;
 
 /**
- * Extract Azure Blob URLs from Shufersal's page
+ * Extract Azure Blob URLs from a Shufersal page
  */
-async function fetchPriceFileUrls(): Promise<string[]> {
-  console.log("🔍 Fetching Shufersal price page...");
-
-  const response = await fetch(SHUFERSAL_URL, {
-    headers: {
-      "User-Agent":
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
-      Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-      "Accept-Language": "he-IL,he;q=0.9,en;q=0.8",
+async function fetchListingPage(url: string, options: DownloadOptions): Promise<string[]> {
+  const response = await fetchWithRetry(
+    url,
+    {
+      headers: {
+        "User-Agent":
+          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36",
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+        "Accept-Language": "he-IL,he;q=0.9,en;q=0.8",
+      },
     },
-  });
+    options
+  );
 
   if (!response.ok) {
     throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
@@ -88,115 +62,99 @@ async function fetchPriceFileUrls(): Promise<string[]> {
   const matches = html.match(urlRegex) || [];
 
   // Decode HTML entities in URLs
-  const urls = matches.map((url) =>
+  return matches.map((url) =>
     url.replace(/&amp;/g, "&").replace(/&lt;/g, "<").replace(/&gt;/g, ">")
   );
+}
 
-  // Remove duplicates
-  const uniqueUrls = [...new Set(urls)];
+/**
+ * Page through one category of the listing until a page adds no new files
+ * isComplete can stop earlier, e.g. once pages only hold files too old to use
+ */
+async function fetchCategoryUrls(
+  category: number,
+  options: DownloadOptions,
+  isComplete?: (pageUrls: string[]) => boolean
+): Promise<string[]> {
+  // Signed URLs can differ between pages, so files are told apart by path
+  const urls = new Map<string, string>();
+
+  for (let page = 1; page <= MAX_LISTING_PAGES; page++) {
+    const pageUrls = await fetchListingPage(
+      `${LISTING_URL}?catID=${category}&storeId=0&page=${page}`,
+      options
+    );
+    const fresh = pageUrls.filter((url) => !urls.has(url.split("?")[0]));
+    if (fresh.length === 0) break;
 
-  console.log(`📁 Found ${uniqueUrls.length} price files`);
+    for (const url of fresh) {
+      urls.set(url.split("?")[0], url);
+    }
+    if (isComplete?.(fresh)) break;
+  }
 
-  return uniqueUrls;
+  return Array.from(urls.values());
 }
 
 /**
- * Download and decompress a gzipped price file
+ * List every branch's latest files: full price files, the price updates
+ * published since, full promotion files and the branch list
  */
-async function downloadPriceFile(url: string): Promise<string> {
-  const response = await fetch(url, {
-    headers: {
-      "User-Agent": "Mozilla/5.0 (compatible; PriceChecker/1.0)",
-      Accept: "application/gzip, */*",
-    },
-  });
+async function fetchPriceFileUrls(options: DownloadOptions): Promise<string[]> {
+  console.log("🔍 Paging through Shufersal's file listing...");
 
-  if (!response.ok) {
-    throw new Error(`Download failed: ${response.status}`);
-  }
+  try {
+    const fullUrls = await fetchCategoryUrls(CATEGORIES.priceFull, options);
+
+    // The listing is newest first, so stop paging updates once a page only
+    // holds files older than every branch's PriceFull
+    const { branches } = selectBranchFiles(fullUrls);
+    const [oldestFull = ""] = branches
+      .map((branch) => getFileTimestamp(branch.full) || "")
+      .sort();
+    const updateUrls = await fetchCategoryUrls(CATEGORIES.price, options, (pageUrls) =>
+      pageUrls.every((url) => (getFileTimestamp(url) || "") <= oldestFull)
+    );
 
-  const buffer = await response.arrayBuffer();
-  const uint8 = new Uint8Array(buffer);
+    const promoUrls = await fetchCategoryUrls(CATEGORIES.promoFull, options);
+    const storesUrls = await fetchCategoryUrls(CATEGORIES.stores, options);
+    const urls = [...fullUrls, ...updateUrls, ...promoUrls, ...storesUrls];
 
-  // Check if gzipped (magic bytes: 0x1f 0x8b)
-  if (uint8[0] === 0x1f && uint8[1] === 0x8b) {
-    const decompressed = gunzipSync(Buffer.from(buffer));
-    return decompressed.toString("utf-8");
+    if (urls.length > 0) {
+      console.log(
+        `📁 Found ${fullUrls.length} full price files, ${updateUrls.length} updates, ` +
+          `${promoUrls.length} promo files`
+      );
+      return urls;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : error;
+    console.warn(`⚠️  File listing failed (${message}), using the landing page`);
   }
 
-  // Already plain text
-  return new TextDecoder().decode(buffer);
+  // Fall back to the files linked from the landing page
+  const urls = [...new Set(await fetchListingPage(SHUFERSAL_URL, options))];
+  console.log(`📁 Found ${urls.length} price files`);
+  return urls;
 }
 
 /**
  * Main crawler function - fetches and parses Shufersal prices
+ * Pass a source to crawl saved files instead of the live site
  */
-export async function crawlShufersal(): Promise<CrawlerResult> {
-  const result: CrawlerResult = {
-    success: false,
-    storeName: "Shufersal",
-    items: [],
-    fetchedAt: new Date().toISOString(),
-  };
+export async function crawlShufersal(source?: CrawlSource): Promise<CrawlerResult> {
+  const result = createCrawlerResult("shufersal", "Shufersal");
+  const options = getDownloadOptions(source);
 
   try {
     // Get list of price file URLs
-    const urls = await fetchPriceFileUrls();
+    const urls = await fetchPriceFileUrls(options);
 
     if (urls.length === 0) {
       throw new Error("No price files found");
     }
 
-    // Download and parse first few files (to avoid overwhelming)
-    // Each file is a different store branch
-    const filesToProcess = urls.slice(0, 5);
-    let successCount = 0;
-
-    for (let i = 0; i < filesToProcess.length; i++) {
-      const url = filesToProcess[i];
-      try {
-        // Extract store ID from URL for logging
-        const storeMatch = url.match(/Price\d+-(\d+)-/);
-        const storeId = storeMatch ? storeMatch[1] : `file${i + 1}`;
-
-        console.log(`📥 Downloading store ${storeId}...`);
-        const xmlContent = await downloadPriceFile(url);
-        const items = parseXMLPrices(xmlContent);
-
-        if (items.length > 0) {
-          result.items.push(...items);
-          successCount++;
-          console.log(`   ✅ Parsed ${items.length} items`);
-        }
-      } catch (error) {
-        console.error(`   ❌ Failed:`, error instanceof Error ? error.message : error);
-      }
-    }
-
-    // Deduplicate by item code, keeping lowest price
-    const uniqueItems = new Map<string, RawStoreItem>();
-    for (const item of result.items) {
-      const existing = uniqueItems.get(item.itemCode);
-      if (!existing || item.itemPrice < existing.itemPrice) {
-        uniqueItems.set(item.itemCode, item);
-      }
-    }
-
-    // Also track high prices for range
-    const highPrices = new Map<string, number>();
-    for (const item of result.items) {
-      const current = highPrices.get(item.itemCode) || 0;
-      if (item.itemPrice > current) {
-        highPrices.set(item.itemCode, item.itemPrice);
-      }
-    }
-
-    result.items = Array.from(uniqueItems.values());
-    result.success = successCount > 0 && result.items.length > 0;
-
-    console.log(`\n🎉 Crawl complete!`);
-    console.log(`   Processed ${successCount}/${filesToProcess.length} files`);
-    console.log(`   Found ${result.items.length} unique products`);
+    await crawlPriceFiles(result, urls, undefined, options);
   } catch (error) {
     result.error = error instanceof Error ? error.message : "Unknown error";
     console.error("❌ Crawl failed:", error);
@@ -205,20 +163,9 @@ export async function crawlShufersal(): Promise<CrawlerResult> {
   return result;
 }
 
-/**
- * Search for items matching given terms (barcode or name)
- */
-export function searchItems(
-  items: RawStoreItem[],
-  searchTerms: string[]
-): RawStoreItem[] {
-  return items.filter((item) => {
-    const itemNameLower = item.itemName.toLowerCase();
-    return searchTerms.some(
-      (term) =>
-        item.itemCode === term ||
-        item.itemCode.includes(term) ||
-        itemNameLower.includes(term.toLowerCase())
-    );
-  });
-}
+export const shufersalCrawler: StoreCrawler = {
+  chainId: "shufersal",
+  chainName: "Shufersal",
+  crawl: crawlShufersal,
+};
+
@@ -0,0 +1,110 @@
+/**
+ * Crawl Sources
+ *
+ * Every request a crawler makes goes through a CrawlSource, so a crawl can
+ * run against the live sites, a local directory of saved files, or the
+ * replay server (scripts/replay-server.ts) serving that directory over HTTP.
+ *
+ * A fixture directory mirrors the URLs it stands in for: a file is looked up
+ * as <dir>/<host>/<last path segment>, then as <dir>/<last path segment>,
+ * and a URL ending in "/" maps to index.html. A URL with a query string is
+ * first looked up with the query folded into the name (see getFixturePaths).
+ * For Shufersal that means the saved https://prices.shufersal.co.il/ page as
+ * prices.shufersal.co.il/index.html, next to the .gz (or plain XML) files
+ * its links point to. fixtures/shufersal is a small working example: two
+ * branches, a price update, a promo file and the branch list.
+ */
+
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import { join } from "path";
+import { Readable } from "stream";
+import { CrawlSource } from "../lib/types";
+
+export const networkSource: CrawlSource = {
+  name: "network",
+  fetch: (url, init) => fetch(url, init),
+};
+
+/**
+ * Get the candidate fixture paths for a URL, most specific first
+ */
+export function getFixturePaths(dir: string, url: string): string[] {
+  const { host, pathname, search } = new URL(url);
+  const name = decodeURIComponent(pathname.split("/").pop() || "") || "index.html";
+  // Never let a crafted name climb out of the fixture directory
+  if (name.includes("/") || name.includes("\\") || name === "..") return [];
+
+  // Paged listings keep one file per query, e.g. UpdateCategory_catID_2_page_3
+  const names = search ? [`${name}_${search.slice(1).replace(/[^\w.-]+/g, "_")}`, name] : [name];
+  return names.flatMap((fileName) => [join(dir, host, fileName), join(dir, fileName)]);
+}
+
+/**
+ * Find the fixture file for a URL, or null
+ */
+async function findFixture(
+  dir: string,
+  url: string
+): Promise<{ path: string; size: number } | null> {
+  for (const path of getFixturePaths(dir, url)) {
+    try {
+      const stats = await stat(path);
+      if (stats.isFile()) return { path, size: stats.size };
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Create a source that answers every request from files in a directory
+ * Requests without a matching file get a 404, like a missing page would
+ */
+export function createDirectorySource(dir: string): CrawlSource {
+  return {
+    name: `directory ${dir}`,
+    async fetch(url, init) {
+      init?.signal?.throwIfAborted();
+
+      const fixture = await findFixture(dir, url);
+      if (!fixture) {
+        return new Response(`No fixture for ${url}`, { status: 404, statusText: "Not Found" });
+      }
+
+      const body = Readable.toWeb(createReadStream(fixture.path)) as unknown as ReadableStream;
+      return new Response(body, {
+        status: 200,
+        headers: { "Content-Length": String(fixture.size) },
+      });
+    },
+  };
+}
+
+/**
+ * Create a source that sends every request to a replay server, which maps
+ * https://<host>/<path> to <baseUrl>/<host>/<path>
+ */
+export function createReplaySource(baseUrl: string): CrawlSource {
+  const base = baseUrl.replace(/\/+$/, "");
+  return {
+    name: `replay ${base}`,
+    fetch(url, init) {
+      const { host, pathname, search } = new URL(url);
+      return fetch(`${base}/${host}${pathname}${search}`, init);
+    },
+  };
+}
+
+/**
+ * Get the source configured by CRAWL_SOURCE: unset for the network, an
+ * http(s) URL for a replay server, anything else for a fixture directory
+ */
+export function getCrawlSource(
+  setting: string | undefined = process.env.CRAWL_SOURCE
+): CrawlSource {
+  if (!setting || setting === "network") return networkSource;
+  if (/^https?:\/\//i.test(setting)) return createReplaySource(setting);
+  return createDirectorySource(setting);
+}
@@ -0,0 +1,77 @@
+/**
+ * Stores File Parser
+ *
+ * Parses the Stores file each chain publishes with its branch list.
+ * Standard files nest <Store> elements under <SubChain>; Shufersal's
+ * uppercase variant puts SUBCHAINID/SUBCHAINNAME on every STORE instead.
+ */
+
+import { StoreBranch } from "../lib/types";
+import { createXmlParser, XmlParser } from "./xmlStream";
+
+/**
+ * Normalize a store ID so "001" (file names) and "1" (Stores files) match
+ */
+export function normalizeStoreId(storeId: string): string {
+  return storeId.trim().replace(/^0+(?=\d)/, "");
+}
+
+/**
+ * Create a streaming parser that emits branches as they are read
+ */
+export function createStoreParser(onStore: (store: StoreBranch) => void): XmlParser {
+  let subChain: Record<string, string> = {};
+  let fields: Record<string, string> | null = null;
+  let text = "";
+
+  return createXmlParser({
+    onOpenTag(name) {
+      const tag = name.toLowerCase();
+      text = "";
+
+      if (tag === "subchain") {
+        subChain = {};
+      } else if (tag === "store") {
+        fields = {};
+      }
+    },
+    onText(chunk) {
+      text += chunk;
+    },
+    onCloseTag(name) {
+      const tag = name.toLowerCase();
+      const value = text.trim();
+      text = "";
+
+      if (tag === "store" && fields) {
+        if (fields.storeid) {
+          onStore({
+            storeId: normalizeStoreId(fields.storeid),
+            storeName: fields.storename || "",
+            city: fields.city || "",
+            address: fields.address || "",
+            subChainId: fields.subchainid || subChain.subchainid,
+            subChainName: fields.subchainname || subChain.subchainname,
+            storeType: fields.storetype,
+          });
+        }
+        fields = null;
+      } else if (fields) {
+        if (value) fields[tag] = value;
+      } else if (value && (tag === "subchainid" || tag === "subchainname")) {
+        subChain[tag] = value;
+      }
+    },
+  });
+}
+
+/**
+ * Parse Stores XML that is already in memory
+ */
+export function parseXMLStores(xmlContent: string): StoreBranch[] {
+  const stores: StoreBranch[] = [];
+  const parser = createStoreParser((store) => stores.push(store));
+  parser.write(xmlContent);
+  parser.end();
+  return stores;
+}
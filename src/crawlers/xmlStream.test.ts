@@ -0,0 +1,11 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeEntities } from "./xmlStream";
+
+test("decodes named and numeric entities", () => {
+  assert.equal(decodeEntities("חלב &amp; גבינה &#1488;&#x5D1;"), "חלב & גבינה אב");
+});
+
+test("leaves out-of-range numeric entities as written", () => {
+  assert.equal(decodeEntities("a &#99999999; b &#x110000; c"), "a &#99999999; b &#x110000; c");
+});
@@ -0,0 +1,195 @@
+/**
+ * Streaming XML Parser
+ *
+ * A small SAX-style parser for the price transparency XML files. Text is
+ * fed in chunks as it is decompressed, so memory stays flat no matter how
+ * large the file is. Handles comments, CDATA, processing instructions and
+ * the standard/numeric entities - enough for the flat record-style files
+ * the chains publish, not a general-purpose XML parser.
+ */
+
+export interface XmlHandlers {
+  onOpenTag?: (name: string) => void;
+  onCloseTag?: (name: string) => void;
+  onText?: (text: string) => void;
+}
+
+export interface XmlParser {
+  write(chunk: string): void;
+  end(): void;
+}
+
+// A record is the flat set of child values of one repeated element (e.g. <Item>)
+export type XmlRecord = Record<string, string>;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode XML entities (&amp;, &#1488;, &#x5D0; ...)
+ */
+export function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === "#") {
+      const code =
+        body[1] === "x" || body[1] === "X"
+          ? parseInt(body.slice(2), 16)
+          : parseInt(body.slice(1), 10);
+      // Leave entities that name no character as written
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Create a streaming parser that reports tags and text to the handlers
+ */
+export function createXmlParser(handlers: XmlHandlers): XmlParser {
+  let buffer = "";
+
+  function emitText(raw: string) {
+    if (raw && handlers.onText) {
+      handlers.onText(decodeEntities(raw));
+    }
+  }
+
+  function handleTag(markup: string) {
+    // markup is everything between "<" and ">"
+    if (markup[0] === "/") {
+      handlers.onCloseTag?.(markup.slice(1).trim());
+      return;
+    }
+
+    const selfClosing = markup.endsWith("/");
+    const body = selfClosing ? markup.slice(0, -1) : markup;
+    const name = body.trim().split(/\s+/)[0];
+    if (!name) return;
+
+    handlers.onOpenTag?.(name);
+    if (selfClosing) {
+      handlers.onCloseTag?.(name);
+    }
+  }
+
+  function process(final: boolean) {
+    let pos = 0;
+
+    while (pos < buffer.length) {
+      const lt = buffer.indexOf("<", pos);
+
+      if (lt === -1) {
+        // Text may continue in the next chunk - keep it unless this is the end
+        if (final) {
+          emitText(buffer.slice(pos));
+          pos = buffer.length;
+        }
+        break;
+      }
+
+      if (lt > pos) {
+        emitText(buffer.slice(pos, lt));
+        pos = lt;
+      }
+
+      let close: number;
+      if (buffer.startsWith("<!--", pos)) {
+        close = buffer.indexOf("-->", pos + 4);
+        if (close === -1) break;
+        pos = close + 3;
+      } else if (buffer.startsWith("<![CDATA[", pos)) {
+        close = buffer.indexOf("]]>", pos + 9);
+        if (close === -1) break;
+        const cdata = buffer.slice(pos + 9, close);
+        if (cdata) handlers.onText?.(cdata);
+        pos = close + 3;
+      } else if (buffer.startsWith("<?", pos)) {
+        close = buffer.indexOf("?>", pos + 2);
+        if (close === -1) break;
+        pos = close + 2;
+      } else {
+        close = buffer.indexOf(">", pos + 1);
+        if (close === -1) break;
+        const markup = buffer.slice(pos + 1, close);
+        // <!DOCTYPE ...> and similar declarations carry no data
+        if (markup[0] !== "!") {
+          handleTag(markup);
+        }
+        pos = close + 1;
+      }
+    }
+
+    buffer = buffer.slice(pos);
+  }
+
+  return {
+    write(chunk: string) {
+      buffer += chunk;
+      process(false);
+    },
+    end() {
+      process(true);
+      buffer = "";
+    },
+  };
+}
+
+/**
+ * Create a streaming parser that collects the children of every element
+ * named in recordTags into a flat record. Tag names are matched and stored
+ * lowercase, so <ItemCode> and <itemcode> are the same field.
+ */
+export function createXmlRecordParser(
+  recordTags: string[],
+  onRecord: (record: XmlRecord, tag: string) => void
+): XmlParser {
+  const tags = new Set(recordTags.map((tag) => tag.toLowerCase()));
+  const stack: string[] = [];
+  let record: XmlRecord | null = null;
+  let recordDepth = -1;
+  let text = "";
+
+  return createXmlParser({
+    onOpenTag(name) {
+      const tag = name.toLowerCase();
+      stack.push(tag);
+      text = "";
+
+      if (!record && tags.has(tag)) {
+        record = {};
+        recordDepth = stack.length;
+      }
+    },
+    onText(chunk) {
+      if (record) text += chunk;
+    },
+    onCloseTag(name) {
+      const tag = name.toLowerCase();
+
+      // Tolerate mismatched casing/nesting by unwinding to the matching tag
+      const index = stack.lastIndexOf(tag);
+      if (index === -1) return;
+      const depth = index + 1;
+      stack.length = index;
+
+      if (!record) return;
+
+      if (depth === recordDepth) {
+        onRecord(record, tag);
+        record = null;
+        recordDepth = -1;
+      } else if (depth > recordDepth) {
+        const value = text.trim();
+        if (value) record[tag] = value;
+      }
+      text = "";
+    },
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * Admin Auth
+ *
+ * Admin routes expect the ADMIN_API_TOKEN environment variable as a bearer
+ * token. When the variable isn't set the admin API is switched off.
+ */
+
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+
+/**
+ * Check a request's admin token
+ * Returns the error response to send, or null when the request may proceed
+ */
+export function checkAdminAuth(request: Request): NextResponse | null {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { success: false, error: "Admin API is disabled (ADMIN_API_TOKEN not set)" },
+      { status: 503 }
+    );
+  }
+
+  const header = request.headers.get("authorization") || "";
+  const given = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getItemCodeKey, isGlobalItemCode, parseBarcode } from "./barcodes";
+
+test("rejects malformed codes and bad check digits", () => {
+  assert.equal(parseBarcode("12345"), "Barcode must be 8 (EAN-8) or 13 (EAN-13) digits");
+  assert.equal(parseBarcode("729000004244x"), "Barcode must be 8 (EAN-8) or 13 (EAN-13) digits");
+  assert.equal(parseBarcode("7290000042440"), "Invalid check digit in barcode 7290000042440");
+  assert.equal(parseBarcode("96385075"), "Invalid check digit in barcode 96385075");
+});
+
+test("reads EAN-8 codes, scoping in-store ones to their chain", () => {
+  assert.deepEqual(parseBarcode(" 96385074 "), {
+    code: "96385074",
+    format: "ean-8",
+    inStore: false,
+    lookupCodes: ["96385074"],
+  });
+  assert.equal(getItemCodeKey("96385074", "shufersal"), "96385074");
+
+  assert.deepEqual(parseBarcode("20123451"), {
+    code: "20123451",
+    format: "ean-8",
+    inStore: true,
+    lookupCodes: ["20123451"],
+  });
+  assert.equal(isGlobalItemCode("20123451"), false);
+  assert.equal(getItemCodeKey("20123451", "shufersal"), "shufersal:20123451");
+});
+
+test("looks up in-store labels by their item part at the issuing chain", () => {
+  const barcode = parseBarcode("2100123012343");
+  assert.ok(typeof barcode !== "string");
+  assert.equal(barcode.inStore, true);
+  assert.deepEqual(barcode.lookupCodes, ["2100123012343", "2100123", "123"]);
+  assert.equal(barcode.labelValue, 1234);
+
+  assert.equal(getItemCodeKey("2100123", "shufersal"), "shufersal:2100123");
+  assert.equal(getItemCodeKey("123", "rami-levy"), "rami-levy:123");
+});
+
+test("matches full GTINs at every chain", () => {
+  const barcode = parseBarcode("7290000042442");
+  assert.ok(typeof barcode !== "string");
+  assert.equal(barcode.inStore, false);
+  assert.equal(getItemCodeKey("7290000042442", "shufersal"), "7290000042442");
+});
@@ -0,0 +1,76 @@
+/**
+ * Scanned Barcodes
+ *
+ * Validates the EAN-13 and EAN-8 codes shoppers scan and works out what to
+ * look them up by. Codes starting with 2 are assigned in the store rather
+ * than by the maker: a weighed item's label puts the item number in the
+ * first digits and the price or weight in the rest, so those are looked up
+ * by the item part as well. In-store and short codes mean different items
+ * at different chains, so they're only looked up at the chain that issued
+ * them; full GTINs match at every chain.
+ */
+
+import { isValidBarcode } from "./catalogValidation";
+
+export type BarcodeFormat = "ean-13" | "ean-8";
+
+export interface ScannedBarcode {
+  code: string;
+  format: BarcodeFormat;
+  inStore: boolean; // Assigned by the store (2xxxxx), so only meaningful at one chain
+  // Item codes to look the barcode up by, most specific first (at the
+  // issuing chain for in-store codes)
+  lookupCodes: string[];
+  // A weighed item label's price or weight digits, in agorot or grams
+  // depending on how the store's scales are set up
+  labelValue?: number;
+}
+
+// Digits of an in-store EAN-13 label that identify the item: "2", a
+// prefix digit and a five digit item number
+const LABEL_ITEM_DIGITS = 7;
+
+/**
+ * Validate a scanned barcode, returning an error message when it isn't a
+ * well-formed EAN-13 or EAN-8 code
+ */
+export function parseBarcode(input: string): ScannedBarcode | string {
+  const code = input.trim();
+  if (!/^(\d{8}|\d{13})$/.test(code)) {
+    return "Barcode must be 8 (EAN-8) or 13 (EAN-13) digits";
+  }
+  if (!isValidBarcode(code)) return `Invalid check digit in barcode ${code}`;
+
+  const format: BarcodeFormat = code.length === 13 ? "ean-13" : "ean-8";
+  const inStore = code.startsWith("2");
+  if (!inStore || format === "ean-8") {
+    return { code, format, inStore, lookupCodes: [code] };
+  }
+
+  // Chains publish weighed items under the item part, or just the item number
+  const itemPart = code.slice(0, LABEL_ITEM_DIGITS);
+  const itemNumber = itemPart.slice(2).replace(/^0+/, "");
+  return {
+    code,
+    format,
+    inStore,
+    lookupCodes: Array.from(new Set([code, itemPart, itemNumber].filter(Boolean))),
+    labelValue: Number(code.slice(LABEL_ITEM_DIGITS, -1)),
+  };
+}
+
+/**
+ * Check whether an item code names the same product at every chain: a GTIN
+ * the maker assigned, not a store's own 2xxxxx code or a short internal one
+ */
+export function isGlobalItemCode(code: string): boolean {
+  return isValidBarcode(code) && !(code.length < 14 && code.startsWith("2"));
+}
+
+/**
+ * Get the key an item code is looked up by: a global code on its own, any
+ * other code together with the chain that issued it
+ */
+export function getItemCodeKey(code: string, chainId?: string): string {
+  return isGlobalItemCode(code) ? code : `${chainId}:${code}`;
+}
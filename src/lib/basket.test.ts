@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compareBasket, PricedBasketLine } from "./basket";
+import { StorePrice } from "./types";
+
+function price(chainId: string, storeId: string, value: number): StorePrice {
+  return { storeChain: chainId, chainId, storeId, storeName: `${chainId} ${storeId}`, price: value };
+}
+
+const lines: PricedBasketLine[] = [
+  {
+    key: "1",
+    nameHebrew: "עגבניות",
+    quantity: 2,
+    prices: [price("a", "1", 5), price("a", "2", 6), price("b", "9", 4)],
+  },
+  {
+    key: "2",
+    nameHebrew: "חלב",
+    quantity: 1,
+    prices: [price("a", "1", 10), price("a", "2", 9), price("b", "9", 12)],
+  },
+  { key: "3", nameHebrew: "במבה", quantity: 1, prices: [price("a", "2", 3)] },
+  { key: "4", nameHebrew: "ביסלי", quantity: 1, prices: [] },
+];
+
+test("finds the cheapest branch with every line any store prices", () => {
+  const comparison = compareBasket(lines);
+  assert.deepEqual(comparison.unpriced, ["4"]);
+  assert.equal(comparison.cheapest?.key, "a:2");
+  assert.equal(comparison.cheapest?.total, 24);
+});
+
+test("finds a cheaper split between two branches", () => {
+  const split = compareBasket(lines).cheapestSplit;
+  assert.equal(split?.total, 20);
+  assert.equal(split?.savings, 4);
+  assert.deepEqual(split?.lines, { "a:2": ["2", "3"], "b:9": ["1"] });
+});
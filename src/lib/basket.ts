@@ -0,0 +1,210 @@
+/**
+ * Basket Comparison
+ *
+ * Prices a whole shopping list at every chain and branch the crawl covers,
+ * then finds the cheapest single store and the cheapest split between two
+ * stores. Items a store has no price for are listed rather than guessed,
+ * so a low total with missing items doesn't win.
+ */
+
+import { StorePrice } from "./types";
+
+// A basket line with the store prices it's compared on
+export interface PricedBasketLine {
+  // Product ID ("13/3-1l" for a variant), or the barcode of an unlisted item
+  // ("shufersal:2xxxxxxxxxxxx" for an in-store code)
+  key: string;
+  nameHebrew: string;
+  unit?: string;
+  quantity: number;
+  prices: StorePrice[];
+}
+
+export interface BasketLocation {
+  key: string; // chain, or chain:branch
+  chainId?: string;
+  storeChain: string;
+  storeId?: string;
+  storeName?: string;
+  city?: string;
+  total: number; // For the lines priced here
+  missing: string[]; // Line keys with no price here
+}
+
+export interface BasketSplit {
+  stores: [BasketLocation, BasketLocation];
+  total: number;
+  lines: Record<string, string[]>; // Location key to the line keys bought there
+  savings?: number; // Compared with the cheapest single store, when one has every line
+}
+
+export interface BasketComparison {
+  chains: BasketLocation[];
+  branches: BasketLocation[];
+  cheapest?: BasketLocation; // Cheapest branch with every line any store has
+  cheapestSplit?: BasketSplit; // Cheapest two branches that together have them
+  unpriced: string[]; // Line keys no store has a price for
+}
+
+type LocationPrices = Omit<BasketLocation, "total" | "missing"> & {
+  prices: Map<string, number>; // Line key to the line's price here
+};
+
+const round = (price: number) => Math.round(price * 100) / 100;
+
+const getChainKey = (price: StorePrice) => price.chainId || price.storeChain;
+
+/**
+ * Get the cheapest price of each line at each branch
+ * Prices without a branch count as the chain's own
+ */
+function getBranchPrices(lines: PricedBasketLine[]): Map<string, LocationPrices> {
+  const branches = new Map<string, LocationPrices>();
+
+  for (const line of lines) {
+    for (const price of line.prices) {
+      if (price.price <= 0) continue;
+      const chainKey = getChainKey(price);
+      const key = price.storeId ? `${chainKey}:${price.storeId}` : chainKey;
+      const branch = branches.get(key) || {
+        key,
+        chainId: price.chainId,
+        storeChain: price.storeChain,
+        storeId: price.storeId,
+        storeName: price.storeName,
+        city: price.city,
+        prices: new Map<string, number>(),
+      };
+      branches.set(key, branch);
+
+      // Name matches can give a branch several items for one line - the
+      // shopper would take the cheapest
+      const linePrice = price.price * line.quantity;
+      const current = branch.prices.get(line.key);
+      if (current === undefined || linePrice < current) branch.prices.set(line.key, linePrice);
+    }
+  }
+
+  return branches;
+}
+
+/**
+ * Estimate each chain's prices as the average over its branches
+ */
+function getChainPrices(branches: LocationPrices[]): LocationPrices[] {
+  const byChain = new Map<string, LocationPrices[]>();
+  for (const branch of branches) {
+    const chainKey = branch.chainId || branch.storeChain;
+    byChain.set(chainKey, [...(byChain.get(chainKey) || []), branch]);
+  }
+
+  return Array.from(byChain, ([key, chainBranches]) => {
+    const totals = new Map<string, number[]>();
+    for (const branch of chainBranches) {
+      branch.prices.forEach((price, line) => {
+        totals.set(line, [...(totals.get(line) || []), price]);
+      });
+    }
+
+    const prices = new Map<string, number>();
+    totals.forEach((values, line) => {
+      prices.set(line, values.reduce((a, b) => a + b, 0) / values.length);
+    });
+    return {
+      key,
+      chainId: chainBranches[0].chainId,
+      storeChain: chainBranches[0].storeChain,
+      prices,
+    };
+  });
+}
+
+/**
+ * Total a location's prices and list the lines it's missing
+ */
+function toLocation(
+  { prices, ...location }: LocationPrices,
+  lines: PricedBasketLine[]
+): BasketLocation {
+  const total = Array.from(prices.values()).reduce((a, b) => a + b, 0);
+  return {
+    ...location,
+    total: round(total),
+    missing: lines.filter((line) => !prices.has(line.key)).map((line) => line.key),
+  };
+}
+
+// Fewest missing lines first, then the lowest total
+const byCompleteness = (a: BasketLocation, b: BasketLocation) =>
+  a.missing.length - b.missing.length || a.total - b.total;
+
+/**
+ * Find the cheapest pair of branches that together have every line,
+ * each buying the lines it's cheaper for
+ */
+function findCheapestSplit(
+  branches: LocationPrices[],
+  lines: PricedBasketLine[],
+  locations: Map<string, BasketLocation>
+): Omit<BasketSplit, "savings"> | undefined {
+  let best: { first: LocationPrices; second: LocationPrices; total: number } | undefined;
+
+  for (let i = 0; i < branches.length; i++) {
+    for (let j = i + 1; j < branches.length; j++) {
+      const [first, second] = [branches[i], branches[j]];
+      let total = 0;
+      for (const line of lines) {
+        const price = Math.min(
+          first.prices.get(line.key) ?? Infinity,
+          second.prices.get(line.key) ?? Infinity
+        );
+        total += price;
+        if (total === Infinity || (best && total >= best.total)) break;
+      }
+      if (total !== Infinity && (!best || total < best.total)) best = { first, second, total };
+    }
+  }
+  if (!best) return undefined;
+
+  const { first, second } = best;
+  const split: Record<string, string[]> = { [first.key]: [], [second.key]: [] };
+  for (const line of lines) {
+    const firstPrice = first.prices.get(line.key) ?? Infinity;
+    const secondPrice = second.prices.get(line.key) ?? Infinity;
+    split[firstPrice <= secondPrice ? first.key : second.key].push(line.key);
+  }
+  // A pair where one store gets everything is just a single store
+  if (split[first.key].length === 0 || split[second.key].length === 0) return undefined;
+
+  return {
+    stores: [locations.get(first.key)!, locations.get(second.key)!],
+    total: round(best.total),
+    lines: split,
+  };
+}
+
+/**
+ * Compare a basket across every chain and branch with prices for its lines
+ */
+export function compareBasket(lines: PricedBasketLine[]): BasketComparison {
+  const branchPrices = Array.from(getBranchPrices(lines).values());
+  const branches = branchPrices.map((branch) => toLocation(branch, lines)).sort(byCompleteness);
+  const chains = getChainPrices(branchPrices)
+    .map((chain) => toLocation(chain, lines))
+    .sort(byCompleteness);
+
+  // Lines no store prices can't be bought anywhere, so they don't rule a store out
+  const priced = new Set(branchPrices.flatMap((branch) => Array.from(branch.prices.keys())));
+  const unpriced = lines.filter((line) => !priced.has(line.key)).map((line) => line.key);
+  const pricedLines = lines.filter((line) => priced.has(line.key));
+
+  const cheapest = branches.find((branch) => branch.missing.length === unpriced.length);
+  const locations = new Map(branches.map((branch) => [branch.key, branch]));
+  const split = findCheapestSplit(branchPrices, pricedLines, locations);
+  const cheapestSplit =
+    split && (!cheapest || split.total < cheapest.total)
+      ? { ...split, savings: cheapest ? round(cheapest.total - split.total) : undefined }
+      : undefined;
+
+  return { chains, branches, cheapest, cheapestSplit, unpriced };
+}
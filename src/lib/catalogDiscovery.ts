@@ -0,0 +1,407 @@
+/**
+ * Catalog Discovery
+ *
+ * Finds crawled items the catalog doesn't cover yet and groups them - by
+ * shared barcode, then by normalized name - into suggested catalog entries
+ * with a guessed category, unit and search terms. Suggestions are saved to
+ * data/catalog-suggestions.json, where a reviewer promotes them into the
+ * catalog or dismisses them (scripts/discover.ts or /api/admin/suggestions).
+ */
+
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { RawStoreItem } from "./types";
+import { CategoryId, getCategoryPath } from "./categories";
+import {
+  CatalogChange,
+  CatalogProduct,
+  createCatalogProduct,
+  FallbackPrice,
+  productCatalog,
+} from "./productCatalog";
+import { isGlobalItemCode } from "./barcodes";
+import {
+  isDescriptive,
+  matchItems,
+  MATCH_THRESHOLD,
+  tokenize,
+} from "./matching";
+import { loadMatchOverrides, MatchOverrides } from "./matchOverrides";
+import { getCatalogScale, getItemPackage, Measure } from "./units";
+import { calculatePriceStats } from "./priceStats";
+
+export type SuggestionStatus = "pending" | "promoted" | "dismissed";
+
+export interface CatalogSuggestion {
+  key: string; // Stable across crawls, so decisions stick
+  nameHebrew: string;
+  category?: CategoryId; // A leaf; left out when no keyword points anywhere
+  unit: string;
+  image: string;
+  barcodes: string[];
+  searchTerms: string[];
+  itemNames: string[]; // Most common names seen, for the reviewer
+  chains: string[];
+  itemCount: number;
+  fallbackPrice?: FallbackPrice;
+  status: SuggestionStatus;
+  productId?: string; // Catalog product created when promoted
+  decidedAt?: string;
+}
+
+export interface SuggestionsFile {
+  generatedAt?: string;
+  suggestions: CatalogSuggestion[];
+}
+
+export const SUGGESTIONS_PATH = join(process.cwd(), "data/catalog-suggestions.json");
+
+// A group must be seen this many times (across branches) to be suggested
+const MIN_ITEMS = 3;
+const MAX_SUGGESTIONS = 200;
+const MAX_ITEM_NAMES = 5;
+
+// Words that point an item name at a leaf category. Catalog search terms
+// are added to these, so the guesses improve as the catalog grows.
+const CATEGORY_KEYWORDS: Partial<Record<CategoryId, string[]>> = {
+  "fresh-vegetables": ["ירקות", "עגבניה", "מלפפון", "בצל", "שום", "גזר", "פלפל", "קישוא", "חציל"],
+  "leafy-greens": ["חסה", "כרוב", "תרד", "פטרוזיליה", "כוסברה", "שמיר", "נענע", "רוקט"],
+  fruit: ["פירות", "תפוח", "בננה", "תפוז", "ענבים", "אבטיח", "מלון", "אגס", "אפרסק", "שזיף"],
+  milk: ["חלב", "שוקו", "משקה חלב", "לבן", "אשל", "רויון"],
+  "white-cheese": ["גבינה לבנה", "קוטג", "לבנה", "בולגרית", "צפתית", "ריקוטה"],
+  "yellow-cheese": ["גבינה צהובה", "מוצרלה", "עמק", "גאודה", "אמנטל", "פרמזן"],
+  "butter-cream": ["חמאה", "שמנת מתוקה", "שמנת חמוצה", "שמנת לבישול"],
+  eggs: ["ביצים", "ביצה", "תריסר"],
+  bread: ["לחם", "חלה", "בגט", "לחם מלא"],
+  "pita-rolls": ["פיתה", "לחמניה", "לאפה", "טורטיה"],
+  poultry: ["עוף", "הודו", "פרגית", "שניצל", "כרעיים", "שוקיים", "כנפיים", "חזה"],
+  beef: ["בקר", "בשר", "טחון", "סטייק", "אנטריקוט", "צלי", "המבורגר", "קבב"],
+  fish: ["דג", "דגים", "סלמון", "אמנון", "מושט", "בורי", "דניס", "לברק", "קרפיון"],
+  "canned-fish": ["טונה", "סרדינים", "הרינג", "שימורי דגים"],
+  "canned-vegetables": ["שימורים", "תירס", "אפונה", "שעועית", "רסק", "זיתים", "חמוצים"],
+  "soft-drinks": ["משקה", "סודה", "קולה", "ספרייט", "פאנטה", "אנרגיה", "תפוזינה"],
+  juice: ["מיץ", "נקטר", "סחוט"],
+  water: ["מים", "מינרלים", "נביעות"],
+  "salty-snacks": ["חטיף", "במבה", "ביסלי", "ציפס", "בייגלה", "קרקר", "פופקורן"],
+  sweets: ["שוקולד", "ופל", "ממתק", "סוכריות", "מסטיק", "עוגיות"],
+  dishwashing: ["סבון כלים", "נוזל כלים", "מדיח", "ספוג", "כלים"],
+  laundry: ["כביסה", "מרכך", "אקונומיקה", "מסיר כתמים", "קפסולות"],
+};
+
+// Placeholder images by top-level category, until a reviewer picks a better one
+const CATEGORY_IMAGES: Partial<Record<CategoryId, string>> = {
+  vegetables: "🥬",
+  fruit: "🍎",
+  "dairy-eggs": "🥛",
+  bakery: "🍞",
+  "meat-poultry": "🍗",
+  fish: "🐟",
+  canned: "🥫",
+  drinks: "🥤",
+  snacks: "🍿",
+  cleaning: "🧴",
+};
+const DEFAULT_IMAGE = "🛒";
+
+/**
+ * Get the placeholder image for a category, from its top-level category
+ */
+function getCategoryImage(category?: CategoryId): string {
+  const [top] = category ? getCategoryPath(category) : [];
+  return (top && CATEGORY_IMAGES[top.id as CategoryId]) || DEFAULT_IMAGE;
+}
+
+/**
+ * Get an item name's product words as written, dropping sizes and package words
+ */
+function getNameWords(name: string): string[] {
+  return name.split(/\s+/).filter((word) => {
+    const tokens = tokenize(word);
+    return tokens.length > 0 && tokens.every(isDescriptive);
+  });
+}
+
+/**
+ * Get the keys that tie an item to others: its barcode and its name
+ */
+function getItemKeys(item: RawStoreItem): string[] {
+  const keys: string[] = [];
+  if (isGlobalItemCode(item.itemCode)) keys.push(`barcode:${item.itemCode}`);
+
+  const words = getNameWords(item.itemName).flatMap(tokenize);
+  if (words.length > 0) keys.push(`name:${words.join(" ")}`);
+  return keys;
+}
+
+/**
+ * Group items that share a barcode or a normalized name, transitively
+ */
+function groupItems(items: RawStoreItem[]): RawStoreItem[][] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const firstByKey = new Map<string, number>();
+  items.forEach((item, i) => {
+    for (const key of getItemKeys(item)) {
+      const first = firstByKey.get(key);
+      if (first === undefined) {
+        firstByKey.set(key, i);
+      } else {
+        parent[find(i)] = find(first);
+      }
+    }
+  });
+
+  const groups = new Map<number, RawStoreItem[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(root, [item]);
+    }
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Count values and return them most common first
+ */
+function byFrequency<T>(values: T[], keyOf: (value: T) => string = String): T[] {
+  const counts = new Map<string, { value: T; count: number }>();
+  for (const value of values) {
+    const key = keyOf(value);
+    const entry = counts.get(key) || { value, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .map((entry) => entry.value);
+}
+
+/**
+ * Get the item codes the catalog already prices, including pinned ones
+ */
+function getCoveredCodes(
+  items: RawStoreItem[],
+  products: CatalogProduct[],
+  overrides: MatchOverrides
+): Set<string> {
+  const covered = new Set<string>();
+  for (const product of products) {
+    const matches = matchItems(items, product, MATCH_THRESHOLD, overrides.products[product.id]);
+    for (const { item } of matches) {
+      covered.add(item.itemCode);
+    }
+  }
+  return covered;
+}
+
+/**
+ * Guess a leaf category from the words in an item name
+ * A keyword at the start of the name counts double - names lead with the
+ * product type ("מיץ תפוזים" is a drink, not a fruit)
+ */
+export function guessCategory(
+  name: string,
+  products: CatalogProduct[] = productCatalog
+): CategoryId | undefined {
+  const text = ` ${tokenize(name).join(" ")} `;
+  const scores = new Map<CategoryId, number>();
+
+  const addScore = (category: CategoryId, keyword: string) => {
+    const phrase = tokenize(keyword).join(" ");
+    if (!phrase) return;
+    const position = text.indexOf(` ${phrase} `);
+    if (position < 0) return;
+    scores.set(category, (scores.get(category) || 0) + (position === 0 ? 2 : 1));
+  };
+
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    for (const keyword of keywords) addScore(category as CategoryId, keyword);
+  }
+  for (const product of products) {
+    for (const term of product.searchTerms) addScore(product.category, term);
+  }
+
+  let best: CategoryId | undefined;
+  scores.forEach((score, category) => {
+    if (!best || score > (scores.get(best) || 0)) best = category;
+  });
+  return best;
+}
+
+const trimAmount = (value: number) => String(Math.round(value * 1000) / 1000);
+
+/**
+ * Write a package size the way catalog units are written: '1 ק"ג', "500 גרם"
+ */
+export function formatMeasure(measure: Measure): string {
+  switch (measure.kind) {
+    case "kg":
+      return measure.amount >= 1
+        ? `${trimAmount(measure.amount)} ק"ג`
+        : `${trimAmount(measure.amount * 1000)} גרם`;
+    case "liter":
+      return measure.amount >= 1
+        ? `${trimAmount(measure.amount)} ליטר`
+        : `${trimAmount(measure.amount * 1000)} מ"ל`;
+    case "unit":
+      return measure.amount === 1 ? "יחידה" : `${trimAmount(measure.amount)} יחידות`;
+  }
+}
+
+/**
+ * Get a stable key for a group: its lowest shared barcode, else its name
+ */
+function getSuggestionKey(items: RawStoreItem[], barcodes: string[]): string {
+  const identity = barcodes[0]
+    ? `barcode:${barcodes[0]}`
+    : byFrequency(items.flatMap(getItemKeys).filter((key) => key.startsWith("name:")))[0];
+  return createHash("sha1").update(identity || "").digest("hex").slice(0, 12);
+}
+
+/**
+ * Build a suggested catalog entry from a group of items
+ */
+function buildSuggestion(items: RawStoreItem[], products: CatalogProduct[]): CatalogSuggestion {
+  const names = byFrequency(items.map((item) => item.itemName.trim().replace(/\s+/g, " ")));
+  const barcodes = [...new Set(items.map((item) => item.itemCode).filter(isGlobalItemCode))].sort();
+
+  const packages = items
+    .map(getItemPackage)
+    .filter((measure): measure is Measure => measure !== null);
+  const [measure] = byFrequency(packages, (m) => `${m.kind}:${m.amount.toFixed(3)}`);
+  const unit = measure ? formatMeasure(measure) : "יחידה";
+
+  // Price the suggested unit, leaving out packages too far from it
+  const prices = items.flatMap((item) => {
+    const scale = getCatalogScale(item, unit);
+    return scale === null ? [] : [item.itemPrice * scale];
+  });
+  const stats = calculatePriceStats(prices);
+
+  const searchTerms = [
+    ...new Set(names.slice(0, 3).map((name) => getNameWords(name).join(" "))),
+  ].filter(Boolean);
+  const category = guessCategory(names[0], products);
+
+  return {
+    key: getSuggestionKey(items, barcodes),
+    nameHebrew: getNameWords(names[0]).join(" ") || names[0],
+    category,
+    unit,
+    image: getCategoryImage(category),
+    barcodes,
+    searchTerms,
+    itemNames: names.slice(0, MAX_ITEM_NAMES),
+    chains: [...new Set(items.map((item) => item.chainId || "?"))].sort(),
+    itemCount: items.length,
+    fallbackPrice:
+      stats.lowPrice > 0
+        ? { average: stats.averagePrice, low: stats.lowPrice, high: stats.highPrice }
+        : undefined,
+    status: "pending",
+  };
+}
+
+/**
+ * Suggest catalog entries for crawled items the catalog doesn't price
+ * Best first: groups sold by more chains, then seen more often
+ */
+export function discoverCatalogSuggestions(
+  items: RawStoreItem[],
+  products: CatalogProduct[] = productCatalog,
+  overrides: MatchOverrides = loadMatchOverrides()
+): CatalogSuggestion[] {
+  const covered = getCoveredCodes(items, products, overrides);
+  const uncovered = items.filter((item) => !covered.has(item.itemCode));
+
+  return groupItems(uncovered)
+    .filter((group) => group.length >= MIN_ITEMS)
+    .map((group) => buildSuggestion(group, products))
+    .filter((suggestion) => suggestion.searchTerms.length > 0 || suggestion.barcodes.length > 0)
+    .sort((a, b) => b.chains.length - a.chains.length || b.itemCount - a.itemCount)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Combine fresh suggestions with saved ones: decisions are kept, and a
+ * decided suggestion isn't offered again
+ */
+export function mergeSuggestions(
+  saved: CatalogSuggestion[],
+  fresh: CatalogSuggestion[]
+): CatalogSuggestion[] {
+  const decided = saved.filter((suggestion) => suggestion.status !== "pending");
+  const decidedKeys = new Set(decided.map((suggestion) => suggestion.key));
+  return [...fresh.filter((suggestion) => !decidedKeys.has(suggestion.key)), ...decided];
+}
+
+/**
+ * Load saved suggestions (empty when discovery hasn't run yet)
+ */
+export function loadSuggestions(path: string = SUGGESTIONS_PATH): SuggestionsFile {
+  if (!existsSync(path)) return { suggestions: [] };
+
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as SuggestionsFile;
+    return { generatedAt: data.generatedAt, suggestions: data.suggestions || [] };
+  } catch (error) {
+    console.error("❌ Failed to read catalog suggestions:", error);
+    return { suggestions: [] };
+  }
+}
+
+/**
+ * Save suggestions
+ */
+export function saveSuggestions(file: SuggestionsFile, path: string = SUGGESTIONS_PATH): void {
+  writeFileSync(path, JSON.stringify(file, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Add a suggestion to the catalog, with any fields the reviewer changed
+ * Marks the suggestion promoted when the catalog accepts it
+ */
+export function promoteSuggestion(
+  suggestion: CatalogSuggestion,
+  changes: Partial<CatalogProduct> = {}
+): CatalogChange {
+  const change = createCatalogProduct({
+    // The English name is the reviewer's to give - the Hebrew one stands in
+    name: suggestion.nameHebrew,
+    nameHebrew: suggestion.nameHebrew,
+    category: suggestion.category,
+    unit: suggestion.unit,
+    image: suggestion.image,
+    barcodes: suggestion.barcodes,
+    searchTerms: suggestion.searchTerms,
+    fallbackPrice: suggestion.fallbackPrice,
+    ...changes,
+  } as Partial<CatalogProduct>);
+
+  if (change.product) {
+    suggestion.status = "promoted";
+    suggestion.productId = change.product.id;
+    suggestion.decidedAt = new Date().toISOString();
+  }
+  return change;
+}
+
+/**
+ * Dismiss a suggestion so discovery stops offering it
+ */
+export function dismissSuggestion(suggestion: CatalogSuggestion): void {
+  suggestion.status = "dismissed";
+  suggestion.decidedAt = new Date().toISOString();
+}
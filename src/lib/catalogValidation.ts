@@ -0,0 +1,163 @@
+/**
+ * Catalog Validation
+ *
+ * Checks for the catalog data file: unique IDs, leaf categories, barcodes
+ * with a correct check digit and sane fallback prices. Pure functions, so
+ * scripts can validate a file without loading the live catalog.
+ */
+
+import { isCategoryId, isLeafCategory } from "./categories";
+import type { CatalogProduct, CatalogVariant } from "./productCatalog";
+
+/**
+ * Check a GTIN barcode (EAN-8, UPC-A, EAN-13 or GTIN-14) and its check digit
+ */
+export function isValidBarcode(code: string): boolean {
+  if (!/^(\d{8}|\d{12,14})$/.test(code)) return false;
+
+  const digits = code.split("").map(Number);
+  const checkDigit = digits.pop()!;
+  // Weights alternate 3, 1, 3, ... from the digit next to the check digit
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+const isText = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isTextList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isText);
+
+/**
+ * Check a barcode list, returning what's wrong with it
+ */
+function validateBarcodes(barcodes: unknown, label: string): string[] {
+  if (!Array.isArray(barcodes)) return [`${label}: barcodes must be a list`];
+  return barcodes
+    .filter((barcode) => typeof barcode !== "string" || !isValidBarcode(barcode))
+    .map((barcode) => `${label}: invalid barcode ${barcode}`);
+}
+
+/**
+ * Validate a product's variants, returning what's wrong with them
+ */
+function validateVariants(variants: unknown, label: string): string[] {
+  if (variants === undefined) return [];
+  if (!Array.isArray(variants)) return [`${label}: variants must be a list`];
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  variants.forEach((variant: Partial<CatalogVariant>, i) => {
+    const variantLabel = `${label} variant ${variant?.id ?? `#${i + 1}`}`;
+    if (!variant || typeof variant !== "object") {
+      errors.push(`${variantLabel}: not an object`);
+      return;
+    }
+
+    for (const field of ["id", "nameHebrew", "unit"] as const) {
+      if (!isText(variant[field])) errors.push(`${variantLabel}: ${field} is required`);
+    }
+    errors.push(...validateBarcodes(variant.barcodes, variantLabel));
+    if (variant.searchTerms !== undefined && !isTextList(variant.searchTerms)) {
+      errors.push(`${variantLabel}: searchTerms must be a list of words`);
+    }
+    if (variant.brand !== undefined && !isText(variant.brand)) {
+      errors.push(`${variantLabel}: brand must be text`);
+    }
+
+    if (variant.id !== undefined) {
+      if (ids.has(variant.id)) errors.push(`${variantLabel}: duplicate id`);
+      ids.add(variant.id);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate one product's fields, returning what's wrong with it
+ */
+function validateProduct(product: Partial<CatalogProduct>, label: string): string[] {
+  const errors: string[] = [];
+
+  for (const field of ["id", "name", "nameHebrew", "unit", "image"] as const) {
+    if (!isText(product[field])) errors.push(`${label}: ${field} is required`);
+  }
+  const category = String(product.category);
+  if (!isCategoryId(category)) {
+    errors.push(`${label}: unknown category "${category}"`);
+  } else if (!isLeafCategory(category)) {
+    errors.push(`${label}: category "${category}" has subcategories - use one of them`);
+  }
+
+  errors.push(...validateBarcodes(product.barcodes, label));
+  errors.push(...validateVariants(product.variants, label));
+
+  if (!isTextList(product.searchTerms)) {
+    errors.push(`${label}: searchTerms must be a list of words`);
+  } else if (product.searchTerms.length === 0 && product.barcodes?.length === 0) {
+    errors.push(`${label}: needs a barcode or a search term to match items`);
+  }
+  if (product.excludeTerms !== undefined && !isTextList(product.excludeTerms)) {
+    errors.push(`${label}: excludeTerms must be a list of words`);
+  }
+
+  const prices = product.fallbackPrice;
+  if (prices !== undefined) {
+    const values = [prices?.low, prices?.average, prices?.high];
+    if (!values.every((value) => typeof value === "number" && value > 0)) {
+      errors.push(`${label}: fallbackPrice needs positive low, average and high`);
+    } else if (!(prices.low <= prices.average && prices.average <= prices.high)) {
+      errors.push(`${label}: fallbackPrice must be ordered low <= average <= high`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a whole catalog, returning every problem found (empty when valid)
+ */
+export function validateCatalog(products: unknown): string[] {
+  if (!Array.isArray(products)) return ["products must be a list"];
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const barcodeOwners = new Map<string, string>();
+
+  products.forEach((product: Partial<CatalogProduct>, i) => {
+    if (!product || typeof product !== "object") {
+      errors.push(`product #${i + 1}: not an object`);
+      return;
+    }
+
+    const label = `product ${product.id ?? `#${i + 1}`}`;
+    errors.push(...validateProduct(product, label));
+
+    if (product.id !== undefined) {
+      if (ids.has(product.id)) errors.push(`${label}: duplicate id`);
+      ids.add(product.id);
+    }
+
+    // A barcode can only identify one active product (or one of its variants)
+    if (!product.retired && Array.isArray(product.barcodes)) {
+      const variants = Array.isArray(product.variants) ? product.variants : [];
+      const variantBarcodes = variants.flatMap((variant) =>
+        Array.isArray(variant?.barcodes) ? variant.barcodes : []
+      );
+      const barcodes = [...product.barcodes, ...variantBarcodes];
+      for (const barcode of barcodes) {
+        const owner = barcodeOwners.get(barcode);
+        if (owner) {
+          errors.push(`${label}: barcode ${barcode} already belongs to product ${owner}`);
+        }
+        barcodeOwners.set(barcode, String(product.id));
+      }
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,106 @@
+/**
+ * Category Tree
+ *
+ * Shelf categories in levels, e.g. חלב וביצים → גבינות → גבינות צהובות.
+ * Every node has a stable ID and a link to its parent; catalog products
+ * point at leaves, and filters can take any node to mean its whole subtree.
+ * No server dependencies, so the page and the API share it.
+ */
+
+import { CategoryNode } from "./types";
+
+export const categoryTree = [
+  { id: "vegetables", nameHebrew: "ירקות", name: "Vegetables" },
+  {
+    id: "fresh-vegetables",
+    nameHebrew: "ירקות טריים",
+    name: "Fresh Vegetables",
+    parentId: "vegetables",
+  },
+  { id: "leafy-greens", nameHebrew: "עלים וירוקים", name: "Leafy Greens", parentId: "vegetables" },
+  { id: "fruit", nameHebrew: "פירות", name: "Fruit" },
+  { id: "dairy-eggs", nameHebrew: "חלב וביצים", name: "Dairy & Eggs" },
+  { id: "milk", nameHebrew: "חלב ומשקאות חלב", name: "Milk", parentId: "dairy-eggs" },
+  { id: "cheese", nameHebrew: "גבינות", name: "Cheese", parentId: "dairy-eggs" },
+  { id: "white-cheese", nameHebrew: "גבינות לבנות", name: "White Cheese", parentId: "cheese" },
+  { id: "yellow-cheese", nameHebrew: "גבינות צהובות", name: "Yellow Cheese", parentId: "cheese" },
+  { id: "butter-cream", nameHebrew: "חמאה ושמנת", name: "Butter & Cream", parentId: "dairy-eggs" },
+  { id: "eggs", nameHebrew: "ביצים", name: "Eggs", parentId: "dairy-eggs" },
+  { id: "bakery", nameHebrew: "לחם ומאפים", name: "Bread & Bakery" },
+  { id: "bread", nameHebrew: "לחמים וחלות", name: "Bread", parentId: "bakery" },
+  { id: "pita-rolls", nameHebrew: "פיתות ולחמניות", name: "Pita & Rolls", parentId: "bakery" },
+  { id: "meat-poultry", nameHebrew: "בשר ועוף", name: "Meat & Poultry" },
+  { id: "poultry", nameHebrew: "עוף", name: "Poultry", parentId: "meat-poultry" },
+  { id: "beef", nameHebrew: "בקר", name: "Beef", parentId: "meat-poultry" },
+  { id: "fish", nameHebrew: "דגים", name: "Fish" },
+  { id: "canned", nameHebrew: "שימורים", name: "Canned Goods" },
+  { id: "canned-fish", nameHebrew: "שימורי דגים", name: "Canned Fish", parentId: "canned" },
+  {
+    id: "canned-vegetables",
+    nameHebrew: "שימורי ירקות וקטניות",
+    name: "Canned Vegetables & Legumes",
+    parentId: "canned",
+  },
+  { id: "drinks", nameHebrew: "משקאות", name: "Drinks" },
+  { id: "soft-drinks", nameHebrew: "משקאות קלים", name: "Soft Drinks", parentId: "drinks" },
+  { id: "juice", nameHebrew: "מיצים", name: "Juice", parentId: "drinks" },
+  { id: "water", nameHebrew: "מים", name: "Water", parentId: "drinks" },
+  { id: "snacks", nameHebrew: "חטיפים", name: "Snacks" },
+  { id: "salty-snacks", nameHebrew: "חטיפים מלוחים", name: "Salty Snacks", parentId: "snacks" },
+  { id: "sweets", nameHebrew: "ממתקים ושוקולד", name: "Sweets & Chocolate", parentId: "snacks" },
+  { id: "cleaning", nameHebrew: "ניקיון", name: "Cleaning" },
+  { id: "dishwashing", nameHebrew: "כלים", name: "Dishwashing", parentId: "cleaning" },
+  { id: "laundry", nameHebrew: "כביסה", name: "Laundry", parentId: "cleaning" },
+] as const satisfies readonly CategoryNode[];
+
+export type CategoryId = (typeof categoryTree)[number]["id"];
+
+const nodesById = new Map<string, CategoryNode>(categoryTree.map((node) => [node.id, node]));
+
+/**
+ * Check whether a string is a known category ID
+ */
+export function isCategoryId(id: string): id is CategoryId {
+  return nodesById.has(id);
+}
+
+/**
+ * Get a category node by ID
+ */
+export function getCategory(id: string): CategoryNode | undefined {
+  return nodesById.get(id);
+}
+
+/**
+ * Get the children of a category, or the top-level categories
+ */
+export function getChildCategories(parentId?: string): CategoryNode[] {
+  return categoryTree.filter((node: CategoryNode) => node.parentId === parentId);
+}
+
+/**
+ * Check whether a category has no subcategories - only leaves hold products
+ */
+export function isLeafCategory(id: string): boolean {
+  return isCategoryId(id) && getChildCategories(id).length === 0;
+}
+
+/**
+ * Get the path from the top level down to a category, itself included
+ */
+export function getCategoryPath(id: string): CategoryNode[] {
+  const path: CategoryNode[] = [];
+  let node = nodesById.get(id);
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? nodesById.get(node.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Check whether a category is in an ancestor's subtree (or is the ancestor)
+ */
+export function isInCategory(id: string, ancestorId: string): boolean {
+  return getCategoryPath(id).some((node) => node.id === ancestorId);
+}
@@ -0,0 +1,75 @@
+/**
+ * Match Overrides
+ *
+ * Curator decisions that pin item codes to catalog products or reject
+ * them, written by scripts/curate.ts and always applied by the matcher.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+export interface ProductOverrides {
+  pinned: string[]; // Item codes that always match, like catalog barcodes
+  rejected: string[]; // Item codes that never match
+}
+
+export interface MatchOverrides {
+  updatedAt?: string;
+  products: Record<string, ProductOverrides>;
+}
+
+export const MATCH_OVERRIDES_PATH = join(process.cwd(), "src/data/matchOverrides.json");
+
+/**
+ * Load curator overrides (empty when none have been saved yet)
+ */
+export function loadMatchOverrides(path: string = MATCH_OVERRIDES_PATH): MatchOverrides {
+  if (!existsSync(path)) return { products: {} };
+
+  try {
+    const data = JSON.parse(readFileSync(path, "utf-8")) as MatchOverrides;
+    return { updatedAt: data.updatedAt, products: data.products || {} };
+  } catch (error) {
+    console.error("❌ Failed to read match overrides:", error);
+    return { products: {} };
+  }
+}
+
+/**
+ * Save curator overrides
+ */
+export function saveMatchOverrides(
+  overrides: MatchOverrides,
+  path: string = MATCH_OVERRIDES_PATH
+): void {
+  const data: MatchOverrides = { ...overrides, updatedAt: new Date().toISOString() };
+  writeFileSync(path, JSON.stringify(data, null, 2) + "\n", "utf-8");
+}
+
+/**
+ * Get the overrides for one product, creating an empty entry if needed
+ */
+export function getProductOverrides(
+  overrides: MatchOverrides,
+  productId: string
+): ProductOverrides {
+  if (!overrides.products[productId]) {
+    overrides.products[productId] = { pinned: [], rejected: [] };
+  }
+  return overrides.products[productId];
+}
+
+/**
+ * Record a curator decision for an item code
+ */
+export function setItemDecision(
+  overrides: MatchOverrides,
+  productId: string,
+  itemCode: string,
+  decision: "pinned" | "rejected"
+): void {
+  const entry = getProductOverrides(overrides, productId);
+  entry.pinned = entry.pinned.filter((code) => code !== itemCode);
+  entry.rejected = entry.rejected.filter((code) => code !== itemCode);
+  entry[decision].push(itemCode);
+}
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MATCH_THRESHOLD, scoreItemName } from "./matching";
+import { productCatalog } from "./productCatalog";
+import { RawStoreItem } from "./types";
+
+function item(itemName: string): RawStoreItem {
+  return { itemCode: "1", itemName, itemPrice: 10, unitOfMeasure: "", quantity: 1 };
+}
+
+function product(name: string) {
+  const found = productCatalog.find((p) => p.name === name);
+  assert.ok(found, `catalog has ${name}`);
+  return found;
+}
+
+test("a brand or category word alone doesn't match a product", () => {
+  const cases: [string, string][] = [
+    ["פילה אמנון", "Salmon Fillet"],
+    ["שימורים תירס", "Tuna Can"],
+    ["פתיתים אוסם", "Bamba"],
+    ["שוקיים עוף", "Chicken Breast"],
+    ["מיץ אשכוליות", "Orange Juice"],
+    ["מים מזוקקים", "Mineral Water"],
+    ["מרכך כביסה", "Laundry Detergent"],
+    ["לחם מחמצת", "White Bread"],
+  ];
+  for (const [name, productName] of cases) {
+    const score = scoreItemName(item(name), product(productName));
+    assert.ok(score < MATCH_THRESHOLD, `${name} → ${productName} scored ${score}`);
+  }
+});
+
+test("items naming the product still match", () => {
+  const cases: [string, string][] = [
+    ["עגבניות", "Tomatoes"],
+    ["חזה עוף טרי", "Chicken Breast"],
+    ["ירך עוף", "Chicken Thighs"],
+    ["פילה סלמון", "Salmon Fillet"],
+    ["טונה בשמן צמחי", "Tuna Can"],
+    ["במבה אוסם 80 גרם", "Bamba"],
+    ["מיץ תפוזים פריגת 1 ליטר", "Orange Juice"],
+    ["מים מינרלים נביעות 1.5 ליטר", "Mineral Water"],
+    ["אבקת כביסה סנו", "Laundry Detergent"],
+    ["לחם לבן פרוס", "White Bread"],
+  ];
+  for (const [name, productName] of cases) {
+    const score = scoreItemName(item(name), product(productName));
+    assert.ok(score >= MATCH_THRESHOLD, `${name} → ${productName} scored ${score}`);
+  }
+});
@@ -0,0 +1,249 @@
+/**
+ * Product Matching
+ *
+ * Scores crawled items against catalog products by barcode and by
+ * Hebrew-aware name matching. Names are normalized (niqqud removed, final
+ * letters folded, plural/construct suffixes stripped) and compared as whole
+ * words, so "חלב" no longer matches "שוקו חלב" via a substring, and barcodes
+ * only match exactly.
+ */
+
+import { RawStoreItem } from "./types";
+import { CatalogProduct, CatalogVariant } from "./productCatalog";
+import { ProductOverrides } from "./matchOverrides";
+import { getCatalogScale } from "./units";
+
+// Minimum confidence for a name match to be used for pricing
+export const MATCH_THRESHOLD = 0.6;
+
+// A variant is one package size - items this far off it belong elsewhere
+const VARIANT_SIZE_TOLERANCE = 0.1;
+
+export interface ItemMatch {
+  item: RawStoreItem;
+  confidence: number; // 0..1, 1 for an exact barcode match
+  matchedBy: "barcode" | "name";
+}
+
+const FINAL_LETTERS: Record<string, string> = {
+  ך: "כ",
+  ם: "מ",
+  ן: "נ",
+  ף: "פ",
+  ץ: "צ",
+};
+
+// Words that describe the package rather than the product
+const PACKAGE_WORDS = new Set(
+  ["גרמ", "גר", "ג", "קג", "קילו", "ליטר", "ל", "מל", "יח", "יחידה", "יחידות", "מארז", "בקבוק"].map(
+    (word) => stemHebrew(foldFinals(word))
+  )
+);
+
+/**
+ * Replace final letter forms (ם, ן, ...) with their regular forms
+ */
+function foldFinals(text: string): string {
+  return text.replace(/[ךםןףץ]/g, (letter) => FINAL_LETTERS[letter]);
+}
+
+/**
+ * Normalize Hebrew/English text for comparison
+ */
+export function normalizeHebrew(text: string): string {
+  return foldFinals(
+    text
+      .toLowerCase()
+      // Niqqud and cantillation marks
+      .replace(/[\u0591-\u05C7]/g, "")
+      // Geresh/gershayim and quotes inside words (ק"ג, קוטג')
+      .replace(/[״׳"'`]/g, "")
+      .replace(/[^\p{L}\p{N}%.]+/gu, " ")
+  )
+    .replace(/(^|\s)\.+|\.+(?=\s|$)/g, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Reduce a normalized Hebrew word to a rough stem, so plural, dual and
+ * construct forms meet the singular: ביצים/ביצה → ביצ, ירכיים/ירך → ירכ
+ */
+export function stemHebrew(word: string): string {
+  if (!/^[א-ת]+$/.test(word)) return word;
+
+  for (const suffix of ["יימ", "ימ", "ות", "י", "ה", "ת"]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 2) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Split text into stemmed words
+ */
+export function tokenize(text: string): string[] {
+  const normalized = normalizeHebrew(text);
+  return normalized ? normalized.split(" ").map(stemHebrew) : [];
+}
+
+/**
+ * Check whether a token carries product meaning (not a size or number)
+ */
+export function isDescriptive(token: string): boolean {
+  return !/\d/.test(token) && !PACKAGE_WORDS.has(token);
+}
+
+const tokenCache = new WeakMap<RawStoreItem, string[]>();
+
+function itemTokens(item: RawStoreItem): string[] {
+  let tokens = tokenCache.get(item);
+  if (!tokens) {
+    tokens = tokenize(item.itemName);
+    tokenCache.set(item, tokens);
+  }
+  return tokens;
+}
+
+/**
+ * Find where a term's words appear in order as whole words, or -1
+ */
+function findPhrase(tokens: string[], phrase: string[]): number {
+  for (let start = 0; start + phrase.length <= tokens.length; start++) {
+    if (phrase.every((word, i) => tokens[start + i] === word)) return start;
+  }
+  return -1;
+}
+
+/**
+ * Score how well an item name matches a product's search terms (0..1)
+ * The leading search term names the product ("חזה עוף"); an item without
+ * all of its words stays below MATCH_THRESHOLD however well a brand or
+ * synonym term matches, so "שוקיים עוף" isn't chicken breast.
+ */
+export function scoreItemName(item: RawStoreItem, product: CatalogProduct): number {
+  const tokens = itemTokens(item);
+  if (tokens.length === 0) return 0;
+
+  const tokenSet = new Set(tokens);
+  for (const term of product.excludeTerms || []) {
+    const excluded = tokenize(term);
+    if (excluded.length > 0 && excluded.every((word) => tokenSet.has(word))) return 0;
+  }
+
+  const descriptiveCount = tokens.filter(isDescriptive).length || 1;
+  const coverageOf = (words: string[]) =>
+    Math.min(words.filter(isDescriptive).length / descriptiveCount, 1);
+
+  const noun = tokenize(product.searchTerms[0] || "").filter(isDescriptive);
+  const hasNoun = noun.length > 0 && noun.every((word) => tokenSet.has(word));
+  // The noun's words apart count like a phrase, without the leading bonus
+  let best = hasNoun ? MATCH_THRESHOLD + 0.25 * coverageOf(noun) : 0;
+  let qualifierBonus = 0;
+
+  for (const term of product.searchTerms) {
+    const words = tokenize(term);
+    if (words.length === 0) continue;
+
+    // Terms like "3%" only refine a match, they can't make one
+    if (!words.some(isDescriptive)) {
+      if (words.every((word) => tokenSet.has(word))) qualifierBonus = 0.1;
+      continue;
+    }
+
+    const position = findPhrase(tokens, words);
+    let score: number;
+    if (position >= 0 && hasNoun) {
+      // Whole phrase found: more specific when it covers more of the name,
+      // and names usually lead with the product type
+      score = MATCH_THRESHOLD + 0.25 * coverageOf(words) + (position === 0 ? 0.15 : 0);
+    } else if (position >= 0) {
+      // A brand or category word alone ("אוסם", "מיץ") is a hint, not a match
+      score = 0.3 + 0.2 * coverageOf(words);
+    } else {
+      const found = words.filter((word) => tokenSet.has(word)).length;
+      score = 0.4 * (found / words.length);
+    }
+
+    best = Math.max(best, score);
+  }
+
+  if (best === 0) return 0;
+  return hasNoun ? Math.min(best + qualifierBonus, 1) : best;
+}
+
+/**
+ * Find the items that match a catalog product, best first
+ * Exact barcode matches (variant and curator-pinned codes included) always
+ * win; name matches must reach the threshold. Curator-rejected codes never
+ * match.
+ */
+export function matchItems(
+  items: RawStoreItem[],
+  product: CatalogProduct,
+  threshold: number = MATCH_THRESHOLD,
+  overrides?: ProductOverrides
+): ItemMatch[] {
+  const variantBarcodes = (product.variants || []).flatMap((variant) => variant.barcodes);
+  const pinned = overrides?.pinned || [];
+  const barcodes = new Set([...product.barcodes, ...variantBarcodes, ...pinned]);
+  const rejected = new Set(overrides?.rejected || []);
+  const matches: ItemMatch[] = [];
+
+  for (const item of items) {
+    if (rejected.has(item.itemCode)) continue;
+
+    if (barcodes.has(item.itemCode)) {
+      matches.push({ item, confidence: 1, matchedBy: "barcode" });
+      continue;
+    }
+
+    const confidence = scoreItemName(item, product);
+    if (confidence >= threshold) {
+      matches.push({ item, confidence: Math.round(confidence * 100) / 100, matchedBy: "name" });
+    }
+  }
+
+  return matches.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Pick the variant of a product an item is, or undefined
+ * A variant barcode decides outright. Otherwise the variant's terms and
+ * brand must appear in the name and its size must fit the item's; the
+ * variant that matched on the most of those wins.
+ */
+export function findVariant(
+  item: RawStoreItem,
+  product: CatalogProduct
+): CatalogVariant | undefined {
+  const variants = product.variants || [];
+  const byBarcode = variants.find((variant) => variant.barcodes.includes(item.itemCode));
+  if (byBarcode) return byBarcode;
+
+  const tokens = itemTokens(item);
+  const hasPhrase = (text: string) => {
+    const words = tokenize(text);
+    return words.length > 0 && findPhrase(tokens, words) >= 0;
+  };
+
+  let best: CatalogVariant | undefined;
+  let bestScore = -1;
+  for (const variant of variants) {
+    const terms = variant.searchTerms || [];
+    if (terms.length > 0 && !terms.some(hasPhrase)) continue;
+    if (variant.brand && !hasPhrase(variant.brand)) continue;
+
+    const scale = getCatalogScale(item, variant.unit);
+    if (scale === null || Math.abs(scale - 1) > VARIANT_SIZE_TOLERANCE) continue;
+
+    const score = (terms.length > 0 ? 1 : 0) + (variant.brand ? 1 : 0);
+    if (score > bestScore) {
+      best = variant;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
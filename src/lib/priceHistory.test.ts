@@ -0,0 +1,85 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getItemPriceSeries, getProductPriceSeries, recordCrawl } from "./priceHistory";
+import { CrawlerResult, Product } from "./types";
+
+const MILK = "7290000042442";
+
+const result: CrawlerResult = {
+  success: true,
+  chainId: "shufersal",
+  storeName: "Shufersal",
+  fetchedAt: "2024-01-01T03:00:00.000Z",
+  items: [
+    { itemCode: MILK, itemName: "חלב 3%", itemPrice: 6.9 },
+    { itemCode: MILK, itemName: "חלב 3%", itemPrice: 7.1 },
+    { itemCode: "7290000012346", itemName: "לחם", itemPrice: 7.5 },
+  ].map((item) => ({ ...item, unitOfMeasure: "", quantity: 1 })),
+};
+
+const product: Product = {
+  id: "1",
+  name: "Milk",
+  nameHebrew: "חלב",
+  category: "dairy",
+  unit: "liter",
+  averagePrice: 7,
+  lowPrice: 6.9,
+  highPrice: 7.1,
+  image: "",
+  priceSource: "live",
+  storePrices: [
+    { storeName: "A", storeChain: "Shufersal", chainId: "shufersal", price: 6.9 },
+    { storeName: "B", storeChain: "Shufersal", chainId: "shufersal", price: 7.1 },
+  ],
+};
+
+test("keeps product and item observations in separate day files", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "history-"));
+  try {
+    const at = new Date("2024-01-01T03:00:00.000Z");
+    assert.equal(await recordCrawl([result], [product], at, dir), 4);
+
+    assert.deepEqual(await readdir(join(dir, "products")), ["2024-01-01.jsonl"]);
+    assert.deepEqual(await readdir(join(dir, "items")), ["2024-01-01.jsonl"]);
+
+    const series = await getProductPriceSeries("1", {}, dir);
+    assert.deepEqual(
+      series.map((o) => [o.chainId, o.averagePrice, o.sampleCount]),
+      [["all", 7, 2]]
+    );
+
+    const items = await getItemPriceSeries(MILK, { chainId: "shufersal" }, dir);
+    assert.deepEqual(
+      items.map((o) => [o.itemCode, o.lowPrice, o.highPrice, o.storeCount]),
+      [[MILK, 6.9, 7.1, 2]]
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("reads a series over several days", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "history-"));
+  try {
+    for (const day of ["01", "02", "03"]) {
+      await recordCrawl([], [product], new Date(`2024-01-${day}T03:00:00.000Z`), dir);
+    }
+
+    const series = await getProductPriceSeries(
+      "1",
+      { from: new Date("2024-01-02T00:00:00.000Z") },
+      dir
+    );
+    assert.deepEqual(
+      series.map((o) => o.timestamp),
+      ["2024-01-02T03:00:00.000Z", "2024-01-03T03:00:00.000Z"]
+    );
+    assert.deepEqual(await getItemPriceSeries(MILK, {}, dir), []);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
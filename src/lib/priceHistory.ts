@@ -0,0 +1,334 @@
+/**
+ * Price History
+ *
+ * Append-only JSON-lines store of crawl observations, one file per day.
+ * Each crawl appends per-product stats (overall and per chain) to
+ * data/history/products/YYYY-MM-DD.jsonl, and per-item prices per chain to
+ * data/history/items/YYYY-MM-DD.jsonl, so price series can be queried over
+ * any date range. Item files are far larger, so they're kept apart and
+ * every file is read line by line.
+ */
+
+import { createReadStream } from "fs";
+import { appendFile, mkdir, readdir } from "fs/promises";
+import { join } from "path";
+import { createInterface } from "readline";
+import { CrawlerResult, Product, StorePrice } from "./types";
+
+export const HISTORY_DIR = join(process.cwd(), "data/history");
+
+// chainId used for stats across all chains
+export const ALL_CHAINS = "all";
+
+export interface ProductObservation {
+  type: "product";
+  crawlId: string;
+  timestamp: string;
+  productId: string;
+  chainId: string; // ALL_CHAINS for the whole market
+  averagePrice: number;
+  lowPrice: number;
+  highPrice: number;
+  sampleCount: number;
+}
+
+export interface ItemObservation {
+  type: "item";
+  crawlId: string;
+  timestamp: string;
+  chainId: string;
+  itemCode: string;
+  itemName: string;
+  averagePrice: number;
+  lowPrice: number;
+  highPrice: number;
+  storeCount: number; // Branches the item was priced at
+}
+
+export type HistoryObservation = ProductObservation | ItemObservation;
+
+// Subdirectory each kind of observation is kept in
+const KIND_DIRS: Record<HistoryObservation["type"], string> = {
+  product: "products",
+  item: "items",
+};
+
+export interface HistoryQuery {
+  from?: Date;
+  to?: Date;
+  chainId?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Summarize a list of prices
+ */
+function summarize(prices: number[]) {
+  const sum = prices.reduce((a, b) => a + b, 0);
+  return {
+    averagePrice: round(sum / prices.length),
+    lowPrice: round(Math.min(...prices)),
+    highPrice: round(Math.max(...prices)),
+  };
+}
+
+/**
+ * Build per-product observations, overall and per chain
+ * Only products priced by this crawl count - ones that fell back to the
+ * snapshot would record its old prices again
+ */
+function productObservations(
+  products: Product[],
+  crawlId: string,
+  timestamp: string
+): ProductObservation[] {
+  const observations: ProductObservation[] = [];
+
+  for (const product of products) {
+    if (product.priceSource !== "live") continue;
+    const storePrices = product.storePrices || [];
+    if (storePrices.length === 0) continue;
+
+    const byChain = new Map<string, StorePrice[]>([[ALL_CHAINS, storePrices]]);
+    for (const storePrice of storePrices) {
+      const chainId = storePrice.chainId || storePrice.storeChain;
+      const list = byChain.get(chainId) || [];
+      list.push(storePrice);
+      byChain.set(chainId, list);
+    }
+
+    for (const [chainId, prices] of byChain) {
+      const values = prices.map((p) => p.price).filter((p) => p > 0);
+      if (values.length === 0) continue;
+      observations.push({
+        type: "product",
+        crawlId,
+        timestamp,
+        productId: product.id,
+        chainId,
+        ...summarize(values),
+        sampleCount: values.length,
+      });
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Build per-item observations, one per item code per chain
+ */
+function itemObservations(
+  results: CrawlerResult[],
+  crawlId: string,
+  timestamp: string
+): ItemObservation[] {
+  const observations: ItemObservation[] = [];
+
+  for (const result of results.filter((r) => r.success)) {
+    const byCode = new Map<string, { itemName: string; prices: number[] }>();
+    for (const item of result.items) {
+      const entry = byCode.get(item.itemCode) || { itemName: item.itemName, prices: [] };
+      entry.prices.push(item.itemPrice);
+      byCode.set(item.itemCode, entry);
+    }
+
+    for (const [itemCode, { itemName, prices }] of byCode) {
+      observations.push({
+        type: "item",
+        crawlId,
+        timestamp,
+        chainId: result.chainId,
+        itemCode,
+        itemName,
+        ...summarize(prices),
+        storeCount: prices.length,
+      });
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Append observations to a day file, creating its directory if needed
+ */
+async function appendObservations(
+  dir: string,
+  day: string,
+  observations: HistoryObservation[]
+): Promise<void> {
+  if (observations.length === 0) return;
+  await mkdir(dir, { recursive: true });
+  const lines = observations.map((observation) => JSON.stringify(observation)).join("\n");
+  await appendFile(join(dir, `${day}.jsonl`), lines + "\n", "utf-8");
+}
+
+/**
+ * Append a crawl's observations to today's history files
+ */
+export async function recordCrawl(
+  results: CrawlerResult[],
+  products: Product[],
+  at: Date = new Date(),
+  dir: string = HISTORY_DIR
+): Promise<number> {
+  const timestamp = at.toISOString();
+  const crawlId = timestamp;
+  const productRows = productObservations(products, crawlId, timestamp);
+  const itemRows = itemObservations(results, crawlId, timestamp);
+
+  await appendObservations(join(dir, KIND_DIRS.product), dayKey(at), productRows);
+  await appendObservations(join(dir, KIND_DIRS.item), dayKey(at), itemRows);
+
+  return productRows.length + itemRows.length;
+}
+
+/**
+ * Read the observations of one kind in a date range that pass the filter
+ * Lines without the needle (e.g. the product ID) are skipped unparsed
+ */
+async function readObservations<T extends HistoryObservation>(
+  kind: T["type"],
+  query: HistoryQuery,
+  dir: string,
+  needle: string,
+  filter: (observation: HistoryObservation) => observation is T
+): Promise<T[]> {
+  const kindDir = join(dir, KIND_DIRS[kind]);
+  let files: string[];
+  try {
+    files = await readdir(kindDir);
+  } catch {
+    return [];
+  }
+
+  const fromDay = query.from ? dayKey(query.from) : "";
+  const toDay = query.to ? dayKey(query.to) : "9999-12-31";
+  const dayFiles = files
+    .filter((file) => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(file))
+    .filter((file) => file.slice(0, 10) >= fromDay && file.slice(0, 10) <= toDay)
+    .sort();
+
+  const observations: T[] = [];
+  for (const file of dayFiles) {
+    const lines = createInterface({
+      input: createReadStream(join(kindDir, file), "utf-8"),
+      crlfDelay: Infinity,
+    });
+    for await (const line of lines) {
+      if (!line.includes(needle)) continue;
+      try {
+        const observation = JSON.parse(line) as HistoryObservation;
+        if (!filter(observation)) continue;
+        const time = new Date(observation.timestamp);
+        if (query.from && time < query.from) continue;
+        if (query.to && time > query.to) continue;
+        observations.push(observation);
+      } catch {
+        continue;
+      }
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Get a product's price series over a date range, oldest first
+ * Defaults to the market-wide series; pass chainId for one chain
+ */
+export async function getProductPriceSeries(
+  productId: string,
+  query: HistoryQuery = {},
+  dir: string = HISTORY_DIR
+): Promise<ProductObservation[]> {
+  const chainId = query.chainId || ALL_CHAINS;
+  return readObservations(
+    "product",
+    query,
+    dir,
+    JSON.stringify(productId),
+    (o): o is ProductObservation =>
+      o.type === "product" && o.productId === productId && o.chainId === chainId
+  );
+}
+
+/**
+ * Get an item's price series over a date range, oldest first
+ */
+export async function getItemPriceSeries(
+  itemCode: string,
+  query: HistoryQuery = {},
+  dir: string = HISTORY_DIR
+): Promise<ItemObservation[]> {
+  return readObservations(
+    "item",
+    query,
+    dir,
+    JSON.stringify(itemCode),
+    (o): o is ItemObservation =>
+      o.type === "item" &&
+      o.itemCode === itemCode &&
+      (!query.chainId || o.chainId === query.chainId)
+  );
+}
+
+export type Granularity = "day" | "week" | "month";
+
+export interface PricePoint {
+  period: string; // Day, Monday of the week, or month (YYYY-MM)
+  averagePrice: number;
+  lowPrice: number;
+  highPrice: number;
+  sampleCount: number;
+}
+
+/**
+ * Get the period an observation falls in
+ */
+function periodKey(timestamp: string, granularity: Granularity): string {
+  const date = new Date(timestamp);
+  if (granularity === "month") return date.toISOString().slice(0, 7);
+  if (granularity === "week") {
+    // Weeks start on Monday
+    const monday = new Date(date);
+    monday.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    return dayKey(monday);
+  }
+  return dayKey(date);
+}
+
+/**
+ * Roll product observations up into one point per period
+ * Averages are weighted by sample count; low/high span the whole period
+ */
+export function aggregateSeries(
+  observations: ProductObservation[],
+  granularity: Granularity = "day"
+): PricePoint[] {
+  const buckets = new Map<string, ProductObservation[]>();
+  for (const observation of observations) {
+    const key = periodKey(observation.timestamp, granularity);
+    const bucket = buckets.get(key) || [];
+    bucket.push(observation);
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets, ([period, bucket]) => {
+    const sampleCount = bucket.reduce((sum, o) => sum + o.sampleCount, 0);
+    const weighted = bucket.reduce((sum, o) => sum + o.averagePrice * o.sampleCount, 0);
+    return {
+      period,
+      averagePrice: round(weighted / (sampleCount || 1)),
+      lowPrice: Math.min(...bucket.map((o) => o.lowPrice)),
+      highPrice: Math.max(...bucket.map((o) => o.highPrice)),
+      sampleCount,
+    };
+  }).sort((a, b) => a.period.localeCompare(b.period));
+}
@@ -4,238 +4,560 @@
  * Aggregates prices from multiple sources and calculates statistics
  */
 
-import { Product, StorePrice } from "./types";
-import { productCatalog, CatalogProduct } from "./productCatalog";
-import { crawlShufersal, searchItems } from "../crawlers/shufersal";
+import {
+  BranchPrice,
+  CrawledItem,
+  CrawlerResult,
+  Product,
+  ProductVariant,
+  RawStoreItem,
+  StorePrice,
+  Promotion,
+  StoreBranch,
+} from "./types";
+import {
+  productCatalog,
+  CatalogProduct,
+  CatalogVariant,
+  getFallbackPrice,
+  getProductBarcodes,
+} from "./productCatalog";
+import { buildPromotionIndex, findBestPromoPrice } from "./promotions";
+import { getCatalogScale, getUnitPrice, getUnitRatio } from "./units";
+import { matchItems, findVariant, ItemMatch, MATCH_THRESHOLD } from "./matching";
+import { loadMatchOverrides } from "./matchOverrides";
+import { getItemCodeKey, ScannedBarcode } from "./barcodes";
+import { recordCrawl } from "./priceHistory";
+import { calculatePriceStats } from "./priceStats";
+import { loadSnapshot, saveSnapshot } from "./priceSnapshot";
+import {
+  crawlAllChains,
+  mergeCrawlerResults,
+  mergeCrawlerPromotions,
+  mergeCrawlerStores,
+  getChainName,
+} from "../crawlers";
+import { summarizeCrawlReport } from "../crawlers/crawlReport";
 
 // Cache for crawled prices
 let priceCache: Map<string, StorePrice[]> = new Map();
+// Per product, each variant's prices in the variant's own unit
+let variantPriceCache: Map<string, Map<string, StorePrice[]>> = new Map();
+let promotionIndex: Map<string, Promotion[]> = new Map();
+let storeIndex: Map<string, StoreBranch> = new Map();
+// Every crawled item by item code, one entry per chain branch
+let itemIndex: Map<string, RawStoreItem[]> = new Map();
 let lastCrawlTime: Date | null = null;
+let refreshInFlight: Promise<boolean> | null = null;
 const CACHE_DURATION_MS = 1000 * 60 * 60; // 1 hour
+// After a failed refresh, wait this long before crawling again, doubling
+// with each further failure up to CACHE_DURATION_MS
+const RETRY_BACKOFF_MS = 1000 * 60 * 5;
+let lastAttemptTime: Date | null = null;
+let failedAttempts = 0;
 
 /**
- * Find matching prices for a catalog product
+ * Convert a matched raw item into a store price
+ * scale converts the item's package price to the catalog product's unit
  */
-function findPricesForProduct(
-  product: CatalogProduct,
-  allItems: { itemCode: string; itemName: string; itemPrice: number; priceUpdateDate?: string }[]
-): StorePrice[] {
+function toStorePrice({ item, confidence }: ItemMatch, scale: number = 1): StorePrice {
+  const chainName = getChainName(item.chainId || "shufersal");
+  const promo = findBestPromoPrice(item, promotionIndex);
+  const branch = item.storeId ? storeIndex.get(`${item.chainId}:${item.storeId}`) : undefined;
+  const rescale = (price: number) => Math.round(price * scale * 100) / 100;
+
+  return {
+    storeName: branch?.storeName || chainName,
+    storeChain: chainName,
+    chainId: item.chainId,
+    storeId: item.storeId,
+    city: branch?.city || undefined,
+    price: rescale(item.itemPrice),
+    shelfPrice: scale !== 1 ? item.itemPrice : undefined,
+    priceUpdateDate: item.priceUpdateDate,
+    promoPrice: promo ? rescale(promo.price) : undefined,
+    promoDescription: promo?.promotion.description,
+    promoClubOnly: promo?.promotion.clubOnly,
+    matchConfidence: confidence,
+  };
+}
+
+/**
+ * Turn a catalog product's matches across all chains into store prices
+ */
+function findPricesForProduct(product: CatalogProduct, matches: ItemMatch[]): StorePrice[] {
   const prices: StorePrice[] = [];
+  const used = new Set<ItemMatch>();
 
-  // First try exact barcode match
-  for (const barcode of product.barcodes) {
-    const matches = allItems.filter((item) => item.itemCode === barcode);
-    for (const match of matches) {
-      prices.push({
-        storeName: "Shufersal",
-        storeChain: "Shufersal",
-        price: match.itemPrice,
-        priceUpdateDate: match.priceUpdateDate,
-      });
-    }
+  // First try exact barcode match - the barcode identifies the exact
+  // package, so an unparseable size never drops it
+  for (const match of matches.filter((m) => m.matchedBy === "barcode")) {
+    used.add(match);
+    prices.push(toStorePrice(match, getCatalogScale(match.item, product.unit) ?? 1));
   }
 
-  // If no barcode match, try fuzzy name matching
+  // If no barcode match, use confident name matches
   if (prices.length === 0) {
-    const matchedItems = searchItems(
-      allItems.map((i) => ({
-        ...i,
-        unitOfMeasure: "",
-        quantity: 1,
-      })),
-      product.searchTerms
-    );
+    // Take up to 5 products per chain so one chain can't dominate the range,
+    // keeping every branch's price for each of them
+    const codesPerChain = new Map<string, Set<string>>();
+    for (const match of matches) {
+      // Drop items sold in a different kind of unit or a far-off size
+      const scale = getCatalogScale(match.item, product.unit);
+      if (scale === null) continue;
 
-    // Take up to 5 price points
-    for (const match of matchedItems.slice(0, 5)) {
-      prices.push({
-        storeName: "Shufersal",
-        storeChain: "Shufersal",
-        price: match.itemPrice,
-        priceUpdateDate: match.priceUpdateDate,
-      });
+      const chainId = match.item.chainId || "shufersal";
+      const codes = codesPerChain.get(chainId) || new Set<string>();
+      codesPerChain.set(chainId, codes);
+      if (!codes.has(match.item.itemCode)) {
+        if (codes.size >= 5) continue;
+        codes.add(match.item.itemCode);
+      }
+      used.add(match);
+      prices.push(toStorePrice(match, scale));
     }
   }
 
+  // Every variant's items count too, so the product's range covers them all
+  for (const match of matches) {
+    if (used.has(match) || !findVariant(match.item, product)) continue;
+    const scale = getCatalogScale(match.item, product.unit);
+    if (scale === null && match.matchedBy === "name") continue;
+    prices.push(toStorePrice(match, scale ?? 1));
+  }
+
   return prices;
 }
 
 /**
- * Calculate price statistics from a list of prices
+ * Split a product's matches between its variants, priced in each variant's
+ * unit. Like the product itself, a variant with barcode matches uses only those.
  */
-function calculatePriceStats(prices: StorePrice[]): {
-  averagePrice: number;
-  lowPrice: number;
-  highPrice: number;
-} {
-  if (prices.length === 0) {
-    return { averagePrice: 0, lowPrice: 0, highPrice: 0 };
+function findVariantPrices(
+  product: CatalogProduct,
+  matches: ItemMatch[]
+): Map<string, StorePrice[]> {
+  const byVariant = new Map<string, ItemMatch[]>();
+  for (const match of matches) {
+    const variant = findVariant(match.item, product);
+    if (variant) byVariant.set(variant.id, [...(byVariant.get(variant.id) || []), match]);
   }
 
-  const priceValues = prices.map((p) => p.price).filter((p) => p > 0);
+  const prices = new Map<string, StorePrice[]>();
+  for (const variant of product.variants || []) {
+    const variantMatches = byVariant.get(variant.id) || [];
+    const exact = variantMatches.filter((m) => variant.barcodes.includes(m.item.itemCode));
+    prices.set(
+      variant.id,
+      (exact.length > 0 ? exact : variantMatches).map((match) =>
+        toStorePrice(match, getCatalogScale(match.item, variant.unit) ?? 1)
+      )
+    );
+  }
+  return prices;
+}
 
-  if (priceValues.length === 0) {
-    return { averagePrice: 0, lowPrice: 0, highPrice: 0 };
+/**
+ * Group crawled items by item code, scoping in-store and short codes to
+ * their chain (see getItemCodeKey)
+ */
+function indexItems(items: RawStoreItem[]): Map<string, RawStoreItem[]> {
+  const index = new Map<string, RawStoreItem[]>();
+  for (const item of items) {
+    const key = getItemCodeKey(item.itemCode, item.chainId);
+    const entries = index.get(key) || [];
+    entries.push(item);
+    index.set(key, entries);
   }
+  return index;
+}
 
-  const sum = priceValues.reduce((a, b) => a + b, 0);
-  const avg = sum / priceValues.length;
-  const min = Math.min(...priceValues);
-  const max = Math.max(...priceValues);
+/**
+ * Look up a scanned barcode in the latest crawl by the first of its codes
+ * a chain published, with every branch's shelf and unit price
+ * In-store codes are only looked up at chainId, the chain that issued them.
+ * Only the server's own crawls are searched - not the snapshot.
+ */
+export function findCrawledItem(
+  barcode: ScannedBarcode,
+  chainId?: string
+): CrawledItem | undefined {
+  if (barcode.inStore && !chainId) return undefined;
+
+  const key = barcode.lookupCodes
+    .map((code) => getItemCodeKey(code, chainId))
+    .find((codeKey) => itemIndex.has(codeKey));
+  if (key === undefined) return undefined;
+
+  const items = itemIndex.get(key)!;
+  const code = items[0].itemCode;
+  const nameCounts = new Map<string, number>();
+  for (const item of items) {
+    nameCounts.set(item.itemName, (nameCounts.get(item.itemName) || 0) + 1);
+  }
+  const [itemName] = Array.from(nameCounts).sort((a, b) => b[1] - a[1])[0];
+
+  const prices = items.map((item): BranchPrice => {
+    const unitPrice = getUnitPrice(item);
+    return {
+      ...toStorePrice({ item, confidence: 1, matchedBy: "barcode" }),
+      unitPrice: unitPrice ? Math.round(unitPrice.price * 100) / 100 : undefined,
+      unitPriceKind: unitPrice?.kind,
+    };
+  });
 
   return {
-    averagePrice: Math.round(avg * 10) / 10,
-    lowPrice: Math.round(min * 10) / 10,
-    highPrice: Math.round(max * 10) / 10,
+    itemCode: code,
+    itemName,
+    isWeighted: items.some((item) => item.isWeighted),
+    prices,
+    stats: calculatePriceStats(prices.map((p) => p.price)),
+    lastUpdated: lastCrawlTime?.toISOString(),
   };
 }
 
 /**
- * Fetch and process all prices
+ * Price the catalog from a crawl's results and make them the cached prices,
+ * saving the snapshot and history. Shared by the server's refresh and
+ * scripts/crawl.ts so both price the same way.
+ * Returns null when no chain returned any items; the old cache is kept
  */
-export async function fetchAllPrices(): Promise<Product[]> {
-  // Check cache
-  if (
-    lastCrawlTime &&
-    Date.now() - lastCrawlTime.getTime() < CACHE_DURATION_MS &&
-    priceCache.size > 0
-  ) {
-    console.log("📦 Using cached prices");
-    return buildProductsFromCache();
+export async function applyCrawlResults(
+  results: CrawlerResult[],
+  crawledAt: Date = new Date()
+): Promise<Product[] | null> {
+  const allItems = mergeCrawlerResults(results);
+  if (allItems.length === 0) return null;
+
+  const chains = results.filter((r) => r.success).map((r) => r.storeName);
+  console.log(`🛒 Merged ${allItems.length} items from ${chains.join(", ")}`);
+
+  // Match prices to our catalog products, applying curator decisions
+  const overrides = loadMatchOverrides();
+  const promotions = buildPromotionIndex(mergeCrawlerPromotions(results));
+  const stores = mergeCrawlerStores(results);
+  const prices = new Map<string, StorePrice[]>();
+  const variantPrices = new Map<string, Map<string, StorePrice[]>>();
+
+  promotionIndex = promotions;
+  storeIndex = stores;
+  itemIndex = indexItems(allItems);
+  for (const catalogProduct of productCatalog) {
+    const productOverrides = overrides.products[catalogProduct.id];
+    const matches = matchItems(allItems, catalogProduct, MATCH_THRESHOLD, productOverrides);
+    prices.set(catalogProduct.id, findPricesForProduct(catalogProduct, matches));
+    variantPrices.set(catalogProduct.id, findVariantPrices(catalogProduct, matches));
+  }
+
+  priceCache = prices;
+  variantPriceCache = variantPrices;
+  lastCrawlTime = crawledAt;
+  const products = buildProductsFromCache();
+
+  // Snapshot and history are best-effort - a read-only filesystem shouldn't
+  // fail the request
+  try {
+    saveSnapshot(products, crawledAt);
+    const count = await recordCrawl(results, products, crawledAt);
+    console.log(`🗄️  Recorded ${count} history observations`);
+  } catch (error) {
+    console.error("❌ Failed to save price snapshot/history:", error);
   }
 
+  return products;
+}
+
+/**
+ * Crawl all chains and rebuild the price cache
+ * Returns false when no chain returned any items; the old cache is kept
+ */
+async function refreshPriceCache(): Promise<boolean> {
   console.log("🔄 Fetching fresh prices...");
 
-  // Crawl Shufersal
-  const shufersalResult = await crawlShufersal();
+  // Crawl every registered chain
+  const results = await crawlAllChains();
+  for (const result of results) {
+    console.log(`📑 ${summarizeCrawlReport(result)}`);
+  }
 
-  if (!shufersalResult.success) {
-    console.error("❌ Failed to fetch prices, using fallback");
+  if (!(await applyCrawlResults(results))) {
+    console.error("❌ Failed to fetch prices");
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check whether the last refresh failed too recently to crawl again
+ */
+function isBackingOff(): boolean {
+  if (failedAttempts === 0 || !lastAttemptTime) return false;
+  const backoff = Math.min(RETRY_BACKOFF_MS * 2 ** (failedAttempts - 1), CACHE_DURATION_MS);
+  return Date.now() - lastAttemptTime.getTime() < backoff;
+}
+
+/**
+ * Start a cache refresh, or join the one already running
+ * Resolves false without crawling while backing off after failures
+ */
+function startRefresh(): Promise<boolean> {
+  if (!refreshInFlight) {
+    if (isBackingOff()) {
+      console.log(`⏳ Skipping refresh after ${failedAttempts} failed attempts`);
+      return Promise.resolve(false);
+    }
+
+    lastAttemptTime = new Date();
+    refreshInFlight = refreshPriceCache()
+      .catch((error) => {
+        console.error("❌ Price refresh failed:", error);
+        return false;
+      })
+      .then((refreshed) => {
+        failedAttempts = refreshed ? 0 : failedAttempts + 1;
+        return refreshed;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Fetch and process all prices
+ * Stale data is served right away while a single background refresh runs;
+ * only the very first call waits for a crawl
+ */
+export async function fetchAllPrices(): Promise<Product[]> {
+  if (lastCrawlTime && priceCache.size > 0) {
+    if (Date.now() - lastCrawlTime.getTime() >= CACHE_DURATION_MS) {
+      console.log("📦 Serving stale prices while refreshing");
+      void startRefresh();
+    } else {
+      console.log("📦 Using cached prices");
+    }
+    return buildProductsFromCache();
+  }
+
+  // Cold start: serve the last snapshot while the first crawl runs
+  if (loadSnapshot()) {
+    console.log("📦 Serving last crawl snapshot while refreshing");
+    void startRefresh();
     return getFallbackProducts();
   }
 
-  // Match prices to our catalog products
-  priceCache.clear();
-  for (const catalogProduct of productCatalog) {
-    const prices = findPricesForProduct(catalogProduct, shufersalResult.items);
-    priceCache.set(catalogProduct.id, prices);
+  const refreshed = await startRefresh();
+  if (!refreshed) {
+    console.error("❌ Failed to fetch prices, using fallback");
+    return getFallbackProducts();
   }
 
-  lastCrawlTime = new Date();
   return buildProductsFromCache();
 }
 
+/**
+ * Describe how fresh the cached prices are
+ */
+export function getPriceCacheStatus(): {
+  lastUpdated?: string;
+  dataAgeSeconds?: number;
+  stale: boolean;
+  refreshing: boolean;
+} {
+  const ageMs = lastCrawlTime ? Date.now() - lastCrawlTime.getTime() : undefined;
+  return {
+    lastUpdated: lastCrawlTime?.toISOString(),
+    dataAgeSeconds: ageMs !== undefined ? Math.round(ageMs / 1000) : undefined,
+    stale: ageMs === undefined || ageMs >= CACHE_DURATION_MS,
+    refreshing: refreshInFlight !== null,
+  };
+}
+
 /**
  * Build Product array from cached prices
+ * Products the crawl found no prices for fall back to the last snapshot,
+ * then to static estimates
  */
 function buildProductsFromCache(): Product[] {
+  const fallbacks = getFallbackProductMap();
+
   return productCatalog.map((catalogProduct) => {
     const storePrices = priceCache.get(catalogProduct.id) || [];
-    const stats = calculatePriceStats(storePrices);
+    const stats = calculatePriceStats(storePrices.map((p) => p.price));
 
     // Use stats if we have real data, otherwise use fallback values
     const hasRealData = storePrices.length > 0 && stats.averagePrice > 0;
+    if (!hasRealData) {
+      return fallbacks.get(catalogProduct.id)!;
+    }
 
-    return {
-      id: catalogProduct.id,
-      name: catalogProduct.name,
-      nameHebrew: catalogProduct.nameHebrew,
-      category: catalogProduct.category,
-      unit: catalogProduct.unit,
-      barcode: catalogProduct.barcodes[0],
-      image: catalogProduct.image,
-      averagePrice: hasRealData ? stats.averagePrice : getFallbackPrice(catalogProduct.id).average,
-      lowPrice: hasRealData ? stats.lowPrice : getFallbackPrice(catalogProduct.id).low,
-      highPrice: hasRealData ? stats.highPrice : getFallbackPrice(catalogProduct.id).high,
+    const product: Product = {
+      ...toBaseProduct(catalogProduct),
+      averagePrice: stats.averagePrice,
+      lowPrice: stats.lowPrice,
+      highPrice: stats.highPrice,
       lastUpdated: lastCrawlTime?.toISOString(),
-      storePrices: hasRealData ? storePrices : undefined,
+      priceSource: "live",
+      dataAgeSeconds: getAgeSeconds(lastCrawlTime?.toISOString()),
+      storePrices,
+      promoPrice: getLowestPromoPrice(storePrices),
+      matchConfidence: getMatchConfidence(storePrices),
+      stats,
+    };
+    const variantPrices = variantPriceCache.get(catalogProduct.id);
+    return {
+      ...product,
+      variants: buildVariants(catalogProduct, product, (variant) => {
+        const prices = variantPrices?.get(variant.id) || [];
+        const variantStats = calculatePriceStats(prices.map((p) => p.price));
+        if (prices.length === 0 || variantStats.averagePrice <= 0) return undefined;
+
+        return {
+          ...toBaseVariant(variant),
+          averagePrice: variantStats.averagePrice,
+          lowPrice: variantStats.lowPrice,
+          highPrice: variantStats.highPrice,
+          priceSource: "live",
+          storePrices: prices,
+          promoPrice: getLowestPromoPrice(prices),
+          stats: variantStats,
+        };
+      }),
     };
   });
 }
 
 /**
- * Fallback prices when crawling fails
- * These are reasonable estimates based on typical Israeli supermarket prices
- */
-function getFallbackPrice(productId: string): { average: number; low: number; high: number } {
-  const fallbackPrices: Record<string, { average: number; low: number; high: number }> = {
-    "1": { average: 8.9, low: 5.9, high: 14.9 }, // Tomatoes
-    "2": { average: 6.9, low: 3.9, high: 9.9 }, // Cucumbers
-    "3": { average: 5.5, low: 3.5, high: 8.9 }, // Potatoes
-    "4": { average: 4.9, low: 2.9, high: 7.9 }, // Onions
-    "5": { average: 5.9, low: 3.9, high: 8.9 }, // Carrots
-    "6": { average: 12.9, low: 7.9, high: 19.9 }, // Bell Pepper
-    "7": { average: 6.9, low: 4.9, high: 9.9 }, // Lettuce
-    "8": { average: 9.9, low: 6.9, high: 14.9 }, // Apples
-    "9": { average: 7.9, low: 5.9, high: 11.9 }, // Bananas
-    "10": { average: 6.9, low: 4.9, high: 9.9 }, // Oranges
-    "11": { average: 19.9, low: 12.9, high: 29.9 }, // Grapes
-    "12": { average: 4.9, low: 2.9, high: 7.9 }, // Watermelon
-    "13": { average: 6.9, low: 5.9, high: 7.9 }, // Milk
-    "14": { average: 23.9, low: 19.9, high: 29.9 }, // Eggs
-    "15": { average: 7.9, low: 5.9, high: 9.9 }, // Cottage
-    "16": { average: 18.9, low: 14.9, high: 24.9 }, // Yellow Cheese
-    "17": { average: 12.9, low: 9.9, high: 16.9 }, // Butter
-    "18": { average: 8.9, low: 6.9, high: 12.9 }, // White Bread
-    "19": { average: 7.9, low: 5.9, high: 10.9 }, // Pita
-    "20": { average: 14.9, low: 10.9, high: 19.9 }, // Challah
-    "21": { average: 39.9, low: 29.9, high: 49.9 }, // Chicken Breast
-    "22": { average: 54.9, low: 44.9, high: 69.9 }, // Ground Beef
-    "23": { average: 29.9, low: 22.9, high: 39.9 }, // Chicken Thighs
-    "24": { average: 89.9, low: 69.9, high: 119.9 }, // Salmon
-    "25": { average: 44.9, low: 34.9, high: 54.9 }, // Tilapia
-    "26": { average: 9.9, low: 6.9, high: 14.9 }, // Tuna
-    "27": { average: 7.9, low: 4.9, high: 10.9 }, // Corn
-    "28": { average: 6.9, low: 4.9, high: 9.9 }, // Chickpeas
-    "29": { average: 8.9, low: 5.9, high: 11.9 }, // Coca Cola
-    "30": { average: 12.9, low: 9.9, high: 16.9 }, // Orange Juice
-    "31": { average: 4.9, low: 2.9, high: 6.9 }, // Water
-    "32": { average: 6.9, low: 4.9, high: 8.9 }, // Bamba
-    "33": { average: 6.9, low: 4.9, high: 8.9 }, // Bissli
-    "34": { average: 14.9, low: 9.9, high: 19.9 }, // Dish Soap
-    "35": { average: 39.9, low: 29.9, high: 54.9 }, // Laundry Detergent
+ * Catalog fields shared by every product, whatever its price source
+ */
+function toBaseProduct(catalogProduct: CatalogProduct) {
+  return {
+    id: catalogProduct.id,
+    name: catalogProduct.name,
+    nameHebrew: catalogProduct.nameHebrew,
+    category: catalogProduct.category,
+    unit: catalogProduct.unit,
+    barcode: getProductBarcodes(catalogProduct)[0],
+    image: catalogProduct.image,
   };
+}
 
-  return fallbackPrices[productId] || { average: 10, low: 5, high: 15 };
+/**
+ * Catalog fields of a variant, whatever its price source
+ */
+function toBaseVariant(variant: CatalogVariant) {
+  return {
+    id: variant.id,
+    nameHebrew: variant.nameHebrew,
+    unit: variant.unit,
+    brand: variant.brand,
+    privateLabel: variant.privateLabel,
+    barcode: variant.barcodes[0],
+  };
 }
 
 /**
- * Get products with fallback prices (no crawling)
+ * Price a product's variants with getPrice, estimating the ones it has no
+ * prices for from the product's range scaled to the variant's unit
  */
-export function getFallbackProducts(): Product[] {
-  return productCatalog.map((catalogProduct) => {
-    const prices = getFallbackPrice(catalogProduct.id);
+function buildVariants(
+  catalogProduct: CatalogProduct,
+  product: Product,
+  getPrice: (variant: CatalogVariant) => ProductVariant | undefined
+): ProductVariant[] | undefined {
+  if (!catalogProduct.variants?.length) return undefined;
+
+  return catalogProduct.variants.map((variant) => {
+    const priced = getPrice(variant);
+    if (priced) return priced;
+
+    const ratio = getUnitRatio(catalogProduct.unit, variant.unit);
+    const scale = (price: number) => Math.round(price * ratio * 10) / 10;
     return {
-      id: catalogProduct.id,
-      name: catalogProduct.name,
-      nameHebrew: catalogProduct.nameHebrew,
-      category: catalogProduct.category,
-      unit: catalogProduct.unit,
-      barcode: catalogProduct.barcodes[0],
-      image: catalogProduct.image,
-      averagePrice: prices.average,
-      lowPrice: prices.low,
-      highPrice: prices.high,
+      ...toBaseVariant(variant),
+      averagePrice: scale(product.averagePrice),
+      lowPrice: scale(product.lowPrice),
+      highPrice: scale(product.highPrice),
+      priceSource: "estimate",
     };
   });
 }
 
+function getAgeSeconds(timestamp?: string): number | undefined {
+  if (!timestamp) return undefined;
+  return Math.max(0, Math.round((Date.now() - new Date(timestamp).getTime()) / 1000));
+}
+
+/**
+ * Get the average match confidence of the prices behind a product
+ */
+function getMatchConfidence(prices: StorePrice[]): number | undefined {
+  const values = prices.map((p) => p.matchConfidence ?? 1);
+  if (values.length === 0) return undefined;
+  return Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 100) / 100;
+}
+
+/**
+ * Get the lowest effective promotion price among store prices
+ */
+function getLowestPromoPrice(prices: StorePrice[]): number | undefined {
+  const promoPrices = prices
+    .map((p) => p.promoPrice)
+    .filter((p): p is number => p !== undefined && p > 0);
+
+  if (promoPrices.length === 0) return undefined;
+  return Math.round(Math.min(...promoPrices) * 10) / 10;
+}
+
 /**
- * Get price rating for a given price
+ * Get the best available non-live product for every catalog entry:
+ * the last successful crawl snapshot, else the static estimate
  */
-export function getPriceRating(
-  price: number,
-  product: Product
-): "great" | "good" | "average" | "high" | "expensive" {
-  const range = product.highPrice - product.lowPrice;
-  if (range === 0) return "average";
+function getFallbackProductMap(): Map<string, Product> {
+  const snapshot = loadSnapshot();
+  const snapshotProducts = new Map(
+    (snapshot?.products || []).map((product) => [product.id, product])
+  );
 
-  const position = (price - product.lowPrice) / range;
+  return new Map(
+    productCatalog.map((catalogProduct): [string, Product] => {
+      const saved = snapshotProducts.get(catalogProduct.id);
+      if (saved && snapshot) {
+        const product: Product = {
+          ...saved,
+          ...toBaseProduct(catalogProduct),
+          lastUpdated: saved.lastUpdated || snapshot.crawledAt,
+          priceSource: "snapshot",
+          dataAgeSeconds: getAgeSeconds(saved.lastUpdated || snapshot.crawledAt),
+        };
+        const variants = buildVariants(catalogProduct, product, (variant) => {
+          const savedVariant = saved.variants?.find((v) => v.id === variant.id);
+          if (!savedVariant || savedVariant.priceSource === "estimate") return undefined;
+          return { ...savedVariant, ...toBaseVariant(variant), priceSource: "snapshot" };
+        });
+        return [catalogProduct.id, { ...product, variants }];
+      }
 
-  if (position <= 0.1) return "great";
-  if (position <= 0.35) return "good";
-  if (position <= 0.65) return "average";
-  if (position <= 0.85) return "high";
-  return "expensive";
+      const prices = getFallbackPrice(catalogProduct);
+      const product: Product = {
+        ...toBaseProduct(catalogProduct),
+        averagePrice: prices.average,
+        lowPrice: prices.low,
+        highPrice: prices.high,
+        priceSource: "estimate",
+      };
+      const variants = buildVariants(catalogProduct, product, () => undefined);
+      return [catalogProduct.id, { ...product, variants }];
+    })
+  );
 }
 
+/**
+ * Get products without crawling: the last successful crawl snapshot where
+ * available, static estimates as a last resort
+ */
+export function getFallbackProducts(): Product[] {
+  return Array.from(getFallbackProductMap().values());
+}
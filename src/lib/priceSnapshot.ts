@@ -0,0 +1,58 @@
+/**
+ * Price Snapshot
+ *
+ * The products from the last successful crawl, saved to disk so a failed
+ * crawl (or a cold start) can serve real prices instead of estimates.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { Product } from "./types";
+
+export const SNAPSHOT_PATH = join(process.cwd(), "data/snapshot-latest.json");
+
+export interface PriceSnapshot {
+  crawledAt: string;
+  products: Product[];
+}
+
+let snapshotCache: PriceSnapshot | null | undefined;
+
+/**
+ * Load the last successful crawl snapshot, or null if there is none
+ */
+export function loadSnapshot(path: string = SNAPSHOT_PATH): PriceSnapshot | null {
+  if (snapshotCache !== undefined && path === SNAPSHOT_PATH) return snapshotCache;
+
+  let snapshot: PriceSnapshot | null = null;
+  if (existsSync(path)) {
+    try {
+      snapshot = JSON.parse(readFileSync(path, "utf-8")) as PriceSnapshot;
+    } catch (error) {
+      console.error("❌ Failed to read price snapshot:", error);
+    }
+  }
+
+  if (path === SNAPSHOT_PATH) snapshotCache = snapshot;
+  return snapshot;
+}
+
+/**
+ * Save the products of a successful crawl
+ * Products this crawl missed keep their prices from the previous snapshot;
+ * estimates are never saved
+ */
+export function saveSnapshot(
+  products: Product[],
+  crawledAt: Date = new Date(),
+  path: string = SNAPSHOT_PATH
+): void {
+  const snapshot: PriceSnapshot = {
+    crawledAt: crawledAt.toISOString(),
+    products: products.filter((p) => p.priceSource === "live" || p.priceSource === "snapshot"),
+  };
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(snapshot), "utf-8");
+  if (path === SNAPSHOT_PATH) snapshotCache = snapshot;
+}
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculatePriceStats, getPriceRating, trimOutliers } from "./priceStats";
+
+test("keeps prices near a price most branches share", () => {
+  const stats = calculatePriceStats([...Array(15).fill(6.9), 7.9, 7.9, 5.9]);
+
+  assert.equal(stats.lowPrice, 5.9);
+  assert.equal(stats.highPrice, 7.9);
+  assert.equal(stats.median, 6.9);
+  assert.equal(stats.outlierCount, 0);
+});
+
+test("still drops mislabeled prices", () => {
+  assert.deepEqual(trimOutliers([0.1, ...Array(10).fill(6.9), 7.9, 200]), [
+    ...Array(10).fill(6.9),
+    7.9,
+  ]);
+});
+
+test("rates a price against the spread around a common price", () => {
+  const stats = calculatePriceStats([...Array(15).fill(6.9), 7.9, 7.9, 5.9]);
+  const product = { ...stats, stats };
+
+  assert.equal(getPriceRating(5.9, product), "great");
+  assert.equal(getPriceRating(6.9, product), "average");
+  assert.equal(getPriceRating(7.9, product), "expensive");
+});
+
+test("rates prices outside a flat range", () => {
+  const product = { averagePrice: 6.9, lowPrice: 6.9, highPrice: 6.9 };
+
+  assert.equal(getPriceRating(5.9, product), "great");
+  assert.equal(getPriceRating(6.9, product), "average");
+  assert.equal(getPriceRating(9.9, product), "expensive");
+});
@@ -0,0 +1,225 @@
+/**
+ * Price Statistics
+ *
+ * Robust stats (median, percentiles, IQR outlier trimming) and the price
+ * rating built on them. Pure functions with no server dependencies, so the
+ * page and the API rate prices the same way.
+ */
+
+import { PriceStats, StorePrice } from "./types";
+
+export type PriceRating = "great" | "good" | "average" | "high" | "expensive";
+
+// The fields a price rating needs from a product
+export interface RatedProduct {
+  averagePrice: number;
+  lowPrice: number;
+  highPrice: number;
+  promoPrice?: number;
+  stats?: PriceStats;
+}
+
+// IQR multiplier for Tukey's fences - beyond these a price is an outlier
+const OUTLIER_FENCE = 1.5;
+
+// Smallest fence as a share of the median: when most branches charge the
+// same price the IQR is 0, and a few agorot off it isn't an outlier
+const MIN_FENCE_SHARE = 0.5;
+
+// Below this many prices there's too little data to call anything an outlier
+const MIN_SAMPLES_FOR_TRIMMING = 4;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Get a percentile (0..1) of sorted values, interpolating between neighbours
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Drop prices outside the IQR fences, e.g. a mislabeled ₪0.10 item or a
+ * ₪200 gift pack
+ */
+export function trimOutliers(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length < MIN_SAMPLES_FOR_TRIMMING) return sorted;
+
+  const q1 = percentile(sorted, 0.25);
+  const q3 = percentile(sorted, 0.75);
+  const fence = Math.max((q3 - q1) * OUTLIER_FENCE, percentile(sorted, 0.5) * MIN_FENCE_SHARE);
+  return sorted.filter((value) => value >= q1 - fence && value <= q3 + fence);
+}
+
+/**
+ * Calculate robust statistics from a list of prices
+ */
+export function calculatePriceStats(prices: number[]): PriceStats {
+  const values = prices.filter((p) => p > 0);
+  const trimmed = trimOutliers(values);
+
+  if (trimmed.length === 0) {
+    return {
+      averagePrice: 0,
+      lowPrice: 0,
+      highPrice: 0,
+      median: 0,
+      p10: 0,
+      p25: 0,
+      p75: 0,
+      p90: 0,
+      sampleCount: 0,
+      outlierCount: 0,
+    };
+  }
+
+  const sum = trimmed.reduce((a, b) => a + b, 0);
+
+  return {
+    averagePrice: round(sum / trimmed.length),
+    lowPrice: round(trimmed[0]),
+    highPrice: round(trimmed[trimmed.length - 1]),
+    median: round(percentile(trimmed, 0.5)),
+    p10: round(percentile(trimmed, 0.1)),
+    p25: round(percentile(trimmed, 0.25)),
+    p75: round(percentile(trimmed, 0.75)),
+    p90: round(percentile(trimmed, 0.9)),
+    sampleCount: trimmed.length,
+    outlierCount: values.length - trimmed.length,
+  };
+}
+
+/**
+ * Estimate where a price falls in a product's distribution (0..1)
+ * Interpolates between the known percentiles; without percentiles (e.g.
+ * fallback estimates) the average stands in for the median
+ */
+export function getPricePercentile(price: number, product: RatedProduct): number {
+  const { stats } = product;
+  const points: [number, number][] =
+    stats && stats.sampleCount > 0
+      ? [
+          [stats.lowPrice, 0],
+          [stats.p10, 0.1],
+          [stats.p25, 0.25],
+          [stats.median, 0.5],
+          [stats.p75, 0.75],
+          [stats.p90, 0.9],
+          [stats.highPrice, 1],
+        ]
+      : [
+          [product.lowPrice, 0],
+          [product.averagePrice, 0.5],
+          [product.highPrice, 1],
+        ];
+
+  // Several percentiles can share a price, e.g. the one most branches
+  // charge - it sits in the middle of them
+  const tied = points.filter(([x]) => x === price);
+  if (tied.length > 1) return (tied[0][1] + tied[tied.length - 1][1]) / 2;
+
+  if (price <= points[0][0]) return 0;
+  if (price >= points[points.length - 1][0]) return 1;
+
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x0, y0] = points[i - 1];
+    if (price <= x1) return y0 + ((price - x0) / (x1 - x0)) * (y1 - y0);
+  }
+  return 1;
+}
+
+/**
+ * Get price rating for a given price by its percentile position
+ * Matching or beating an active promotion always counts as a bargain
+ */
+export function getPriceRating(price: number, product: RatedProduct): PriceRating {
+  if (product.promoPrice !== undefined && price <= product.promoPrice) return "great";
+  if (product.highPrice - product.lowPrice <= 0) {
+    // Every store charges the same, so there's no spread to place the price in
+    if (price < product.lowPrice) return "great";
+    if (price > product.highPrice) return "expensive";
+    return "average";
+  }
+
+  const position = getPricePercentile(price, product);
+
+  if (position <= 0.1) return "great";
+  if (position <= 0.35) return "good";
+  if (position <= 0.65) return "average";
+  if (position <= 0.85) return "high";
+  return "expensive";
+}
+
+export interface RatingExplanation {
+  rating: PriceRating;
+  price: number;
+  percentile: number; // 0..100, share of the market priced below this price
+  cheaperThanCount: number; // Observed prices higher than this price
+  sampleCount: number;
+  cheapest?: {
+    storeName: string;
+    storeChain: string;
+    city?: string;
+    price: number;
+  };
+  // The best active promotion, if it beats this price
+  betterPromotion?: {
+    storeName: string;
+    storeChain: string;
+    price: number;
+    description?: string;
+    clubOnly: boolean;
+  };
+}
+
+/**
+ * Rate a price and explain the rating against the observed store prices
+ */
+export function explainPriceRating(
+  price: number,
+  product: RatedProduct & { storePrices?: StorePrice[] }
+): RatingExplanation {
+  const storePrices = (product.storePrices || []).filter((p) => p.price > 0);
+  // Don't point at a trimmed outlier as the cheapest place
+  const minPlausible = product.stats ? product.stats.lowPrice - 0.05 : 0;
+
+  const cheapest = storePrices
+    .filter((p) => p.price >= minPlausible)
+    .reduce<StorePrice | undefined>(
+      (best, p) => (!best || p.price < best.price ? p : best),
+      undefined
+    );
+  const bestPromo = storePrices
+    .filter((p) => p.promoPrice !== undefined && p.promoPrice < price)
+    .reduce<StorePrice | undefined>(
+      (best, p) => (!best || p.promoPrice! < best.promoPrice! ? p : best),
+      undefined
+    );
+
+  return {
+    rating: getPriceRating(price, product),
+    price,
+    percentile: Math.round(getPricePercentile(price, product) * 100),
+    cheaperThanCount: storePrices.filter((p) => p.price > price).length,
+    sampleCount: storePrices.length,
+    cheapest: cheapest && {
+      storeName: cheapest.storeName,
+      storeChain: cheapest.storeChain,
+      city: cheapest.city,
+      price: cheapest.price,
+    },
+    betterPromotion: bestPromo && {
+      storeName: bestPromo.storeName,
+      storeChain: bestPromo.storeChain,
+      price: bestPromo.promoPrice!,
+      description: bestPromo.promoDescription,
+      clubOnly: bestPromo.promoClubOnly ?? false,
+    },
+  };
+}
@@ -1,409 +1,233 @@
 // Product catalog with barcodes for matching with store data
 // Barcodes are the key to matching products across different stores
+//
+// The catalog lives in src/data/catalog.json, edited by hand or through
+// /api/admin/catalog. Every load and save is validated: unique IDs, known
+// leaf categories and barcodes with a correct check digit.
 
-import { Category } from "./types";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { CategoryId } from "./categories";
+import { validateCatalog } from "./catalogValidation";
+
+// Static price estimate used when no crawl data exists
+export interface FallbackPrice {
+  average: number;
+  low: number;
+  high: number;
+}
+
+// A specific package of a product: a size, fat level, grade or brand
+export interface CatalogVariant {
+  id: string; // Unique within its product, e.g. "3-1l"
+  nameHebrew: string;
+  unit: string;
+  barcodes: string[];
+  // Words that tell this variant apart ("1%", "L"); any one must appear
+  searchTerms?: string[];
+  brand?: string; // Must appear in the item name when set
+  privateLabel?: boolean; // A chain's own brand
+}
 
 export interface CatalogProduct {
   id: string;
   name: string;
   nameHebrew: string;
-  category: Category;
+  category: CategoryId; // A leaf of the category tree
   unit: string;
   image: string;
   // Multiple barcodes since products can have variants
   barcodes: string[];
   // Search terms for fuzzy matching when barcode isn't available
   searchTerms: string[];
+  // Words that rule an item out even when a search term matches
+  excludeTerms?: string[];
+  fallbackPrice?: FallbackPrice;
+  // Sizes, grades and brands, priced separately and rolled up into the product
+  variants?: CatalogVariant[];
+  // Retired products keep their ID (and history) but are no longer priced
+  retired?: boolean;
+  retiredAt?: string;
 }
 
-// Product catalog with real Israeli product barcodes
-export const productCatalog: CatalogProduct[] = [
-  // ירקות (Vegetables)
-  {
-    id: "1",
-    name: "Tomatoes",
-    nameHebrew: "עגבניות",
-    category: "ירקות",
-    unit: "1 ק\"ג",
-    image: "🍅",
-    barcodes: ["2000010000002", "2000011000001"], // Weight items often start with 2
-    searchTerms: ["עגבניות", "עגבניה", "tomato"],
-  },
-  {
-    id: "2",
-    name: "Cucumbers",
-    nameHebrew: "מלפפונים",
-    category: "ירקות",
-    unit: "1 ק\"ג",
-    image: "🥒",
-    barcodes: ["2000020000001"],
-    searchTerms: ["מלפפון", "מלפפונים", "cucumber"],
-  },
-  {
-    id: "3",
-    name: "Potatoes",
-    nameHebrew: "תפוחי אדמה",
-    category: "ירקות",
-    unit: "1 ק\"ג",
-    image: "🥔",
-    barcodes: ["2000030000000"],
-    searchTerms: ["תפוח אדמה", "תפוחי אדמה", "potato"],
-  },
-  {
-    id: "4",
-    name: "Onions",
-    nameHebrew: "בצל",
-    category: "ירקות",
-    unit: "1 ק\"ג",
-    image: "🧅",
-    barcodes: ["2000040000009"],
-    searchTerms: ["בצל", "onion"],
-  },
-  {
-    id: "5",
-    name: "Carrots",
-    nameHebrew: "גזר",
-    category: "ירקות",
-    unit: "1 ק\"ג",
-    image: "🥕",
-    barcodes: ["2000050000008"],
-    searchTerms: ["גזר", "carrot"],
-  },
-  {
-    id: "6",
-    name: "Bell Pepper",
-    nameHebrew: "פלפל",
-    category: "ירקות",
-    unit: "1 ק\"ג",
-    image: "🫑",
-    barcodes: ["2000060000007"],
-    searchTerms: ["פלפל", "pepper"],
-  },
-  {
-    id: "7",
-    name: "Lettuce",
-    nameHebrew: "חסה",
-    category: "ירקות",
-    unit: "יחידה",
-    image: "🥬",
-    barcodes: ["2000070000006"],
-    searchTerms: ["חסה", "lettuce"],
-  },
+export interface CatalogFile {
+  updatedAt?: string;
+  products: CatalogProduct[];
+}
 
-  // פירות (Fruits)
-  {
-    id: "8",
-    name: "Apples",
-    nameHebrew: "תפוחים",
-    category: "פירות",
-    unit: "1 ק\"ג",
-    image: "🍎",
-    barcodes: ["2000080000005"],
-    searchTerms: ["תפוח", "תפוחים", "apple"],
-  },
-  {
-    id: "9",
-    name: "Bananas",
-    nameHebrew: "בננות",
-    category: "פירות",
-    unit: "1 ק\"ג",
-    image: "🍌",
-    barcodes: ["2000090000004"],
-    searchTerms: ["בננה", "בננות", "banana"],
-  },
-  {
-    id: "10",
-    name: "Oranges",
-    nameHebrew: "תפוזים",
-    category: "פירות",
-    unit: "1 ק\"ג",
-    image: "🍊",
-    barcodes: ["2000100000003"],
-    searchTerms: ["תפוז", "תפוזים", "orange"],
-  },
-  {
-    id: "11",
-    name: "Grapes",
-    nameHebrew: "ענבים",
-    category: "פירות",
-    unit: "1 ק\"ג",
-    image: "🍇",
-    barcodes: ["2000110000002"],
-    searchTerms: ["ענבים", "ענב", "grape"],
-  },
-  {
-    id: "12",
-    name: "Watermelon",
-    nameHebrew: "אבטיח",
-    category: "פירות",
-    unit: "1 ק\"ג",
-    image: "🍉",
-    barcodes: ["2000120000001"],
-    searchTerms: ["אבטיח", "watermelon"],
-  },
+// A catalog edit either succeeds with the saved product or fails validation
+export type CatalogChange =
+  | { product: CatalogProduct; errors?: undefined }
+  | { product?: undefined; errors: string[] };
 
-  // חלב וביצים (Dairy & Eggs)
-  {
-    id: "13",
-    name: "Milk 3%",
-    nameHebrew: "חלב 3%",
-    category: "חלב וביצים",
-    unit: "1 ליטר",
-    image: "🥛",
-    // Real Tnuva milk barcodes
-    barcodes: ["7290000066318", "7290000066325", "7290102990017"],
-    searchTerms: ["חלב", "milk", "3%"],
-  },
-  {
-    id: "14",
-    name: "Eggs",
-    nameHebrew: "ביצים",
-    category: "חלב וביצים",
-    unit: "12 יחידות",
-    image: "🥚",
-    barcodes: ["7290000129617", "7290000129624"],
-    searchTerms: ["ביצים", "ביצה", "eggs", "תריסר"],
-  },
-  {
-    id: "15",
-    name: "Cottage Cheese",
-    nameHebrew: "קוטג'",
-    category: "חלב וביצים",
-    unit: "250 גרם",
-    image: "🧀",
-    // Tnuva cottage
-    barcodes: ["7290000051234", "7290000051241"],
-    searchTerms: ["קוטג", "cottage", "גבינה לבנה"],
-  },
-  {
-    id: "16",
-    name: "Yellow Cheese",
-    nameHebrew: "גבינה צהובה",
-    category: "חלב וביצים",
-    unit: "200 גרם",
-    image: "🧀",
-    barcodes: ["7290000078231", "7290000078248"],
-    searchTerms: ["גבינה צהובה", "עמק", "cheese"],
-  },
-  {
-    id: "17",
-    name: "Butter",
-    nameHebrew: "חמאה",
-    category: "חלב וביצים",
-    unit: "200 גרם",
-    image: "🧈",
-    barcodes: ["7290000045678"],
-    searchTerms: ["חמאה", "butter"],
-  },
+export const CATALOG_PATH = join(process.cwd(), "src/data/catalog.json");
 
-  // לחם ומאפים (Bread & Bakery)
-  {
-    id: "18",
-    name: "White Bread",
-    nameHebrew: "לחם לבן",
-    category: "לחם ומאפים",
-    unit: "יחידה",
-    image: "🍞",
-    // Angel bakery white bread
-    barcodes: ["7290000123456", "7290008700016"],
-    searchTerms: ["לחם לבן", "לחם", "bread", "אנג'ל"],
-  },
-  {
-    id: "19",
-    name: "Pita",
-    nameHebrew: "פיתה",
-    category: "לחם ומאפים",
-    unit: "6 יחידות",
-    image: "🫓",
-    barcodes: ["7290000234567"],
-    searchTerms: ["פיתה", "פיתות", "pita"],
-  },
-  {
-    id: "20",
-    name: "Challah",
-    nameHebrew: "חלה",
-    category: "לחם ומאפים",
-    unit: "יחידה",
-    image: "🍞",
-    barcodes: ["7290000345678"],
-    searchTerms: ["חלה", "challah"],
-  },
+// Estimate for products added without one
+const DEFAULT_FALLBACK_PRICE: FallbackPrice = { average: 10, low: 5, high: 15 };
 
-  // בשר ועוף (Meat & Poultry)
-  {
-    id: "21",
-    name: "Chicken Breast",
-    nameHebrew: "חזה עוף",
-    category: "בשר ועוף",
-    unit: "1 ק\"ג",
-    image: "🍗",
-    barcodes: ["2000210000005"],
-    searchTerms: ["חזה עוף", "עוף", "chicken breast"],
-  },
-  {
-    id: "22",
-    name: "Ground Beef",
-    nameHebrew: "בשר טחון",
-    category: "בשר ועוף",
-    unit: "1 ק\"ג",
-    image: "🥩",
-    barcodes: ["2000220000004"],
-    searchTerms: ["בשר טחון", "ground beef", "בקר טחון"],
-  },
-  {
-    id: "23",
-    name: "Chicken Thighs",
-    nameHebrew: "ירכיים עוף",
-    category: "בשר ועוף",
-    unit: "1 ק\"ג",
-    image: "🍗",
-    barcodes: ["2000230000003"],
-    searchTerms: ["ירכיים", "ירך עוף", "chicken thigh"],
-  },
+/**
+ * Fallback prices when crawling fails
+ * These are the catalog's estimates based on typical Israeli supermarket prices
+ */
+export function getFallbackPrice(product: CatalogProduct): FallbackPrice {
+  return product.fallbackPrice || DEFAULT_FALLBACK_PRICE;
+}
 
-  // דגים (Fish)
-  {
-    id: "24",
-    name: "Salmon Fillet",
-    nameHebrew: "פילה סלמון",
-    category: "דגים",
-    unit: "1 ק\"ג",
-    image: "🐟",
-    barcodes: ["2000240000002"],
-    searchTerms: ["סלמון", "salmon", "פילה"],
-  },
-  {
-    id: "25",
-    name: "Tilapia",
-    nameHebrew: "אמנון",
-    category: "דגים",
-    unit: "1 ק\"ג",
-    image: "🐟",
-    barcodes: ["2000250000001"],
-    searchTerms: ["אמנון", "tilapia", "דג"],
-  },
+/**
+ * Get a product's barcodes, including its variants'
+ */
+export function getProductBarcodes(product: CatalogProduct): string[] {
+  return [...product.barcodes, ...(product.variants || []).flatMap((variant) => variant.barcodes)];
+}
+
+/**
+ * Load and validate the catalog file
+ * Throws when the file is invalid - pricing a broken catalog is worse than failing
+ */
+export function loadCatalog(path: string = CATALOG_PATH): CatalogFile {
+  if (!existsSync(path)) {
+    throw new Error(`Catalog not found at ${path}`);
+  }
 
-  // שימורים (Canned Goods)
-  {
-    id: "26",
-    name: "Tuna Can",
-    nameHebrew: "טונה",
-    category: "שימורים",
-    unit: "160 גרם",
-    image: "🥫",
-    // Starkist / local tuna brands
-    barcodes: ["7290000567890", "7290000567891"],
-    searchTerms: ["טונה", "tuna", "שימורים"],
-  },
-  {
-    id: "27",
-    name: "Corn Can",
-    nameHebrew: "תירס",
-    category: "שימורים",
-    unit: "400 גרם",
-    image: "🌽",
-    barcodes: ["7290000678901"],
-    searchTerms: ["תירס", "corn", "שימורים"],
-  },
-  {
-    id: "28",
-    name: "Chickpeas",
-    nameHebrew: "חומוס",
-    category: "שימורים",
-    unit: "400 גרם",
-    image: "🥫",
-    barcodes: ["7290000789012"],
-    searchTerms: ["חומוס", "גרגירי חומוס", "chickpeas"],
-  },
+  const data = JSON.parse(readFileSync(path, "utf-8")) as CatalogFile;
+  const errors = validateCatalog(data.products);
+  if (errors.length > 0) {
+    throw new Error(`Invalid catalog ${path}:\n  ${errors.join("\n  ")}`);
+  }
 
-  // משקאות (Beverages)
-  {
-    id: "29",
-    name: "Coca Cola",
-    nameHebrew: "קוקה קולה",
-    category: "משקאות",
-    unit: "1.5 ליטר",
-    image: "🥤",
-    // Real Coca Cola Israel barcodes
-    barcodes: ["5000112611779", "5449000000996", "5449000214591"],
-    searchTerms: ["קוקה קולה", "קולה", "coca cola", "coke"],
-  },
-  {
-    id: "30",
-    name: "Orange Juice",
-    nameHebrew: "מיץ תפוזים",
-    category: "משקאות",
-    unit: "1 ליטר",
-    image: "🧃",
-    // Primor / Prigat
-    barcodes: ["7290000890123", "7290000890124"],
-    searchTerms: ["מיץ תפוזים", "מיץ", "orange juice", "פריגת"],
-  },
-  {
-    id: "31",
-    name: "Mineral Water",
-    nameHebrew: "מים מינרלים",
-    category: "משקאות",
-    unit: "1.5 ליטר",
-    image: "💧",
-    // Neviot / Ein Gedi
-    barcodes: ["7290000901234", "7290000901235"],
-    searchTerms: ["מים", "מינרלים", "נביעות", "water"],
-  },
+  return { updatedAt: data.updatedAt, products: data.products };
+}
 
-  // חטיפים (Snacks)
-  {
-    id: "32",
-    name: "Bamba",
-    nameHebrew: "במבה",
-    category: "חטיפים",
-    unit: "80 גרם",
-    image: "🥜",
-    // Osem Bamba barcodes
-    barcodes: ["7290000012346", "7290000012353"],
-    searchTerms: ["במבה", "bamba", "אוסם"],
-  },
-  {
-    id: "33",
-    name: "Bissli",
-    nameHebrew: "ביסלי",
-    category: "חטיפים",
-    unit: "70 גרם",
-    image: "🍿",
-    // Osem Bissli barcodes
-    barcodes: ["7290000023456", "7290000023463"],
-    searchTerms: ["ביסלי", "bissli", "אוסם"],
-  },
+// Every product, retired ones included, as last loaded or saved
+let catalogFile: CatalogFile = { products: [] };
 
-  // ניקיון (Cleaning)
-  {
-    id: "34",
-    name: "Dish Soap",
-    nameHebrew: "סבון כלים",
-    category: "ניקיון",
-    unit: "750 מ\"ל",
-    image: "🧴",
-    // Fairy / Sano
-    barcodes: ["7290000345678", "7290000345679"],
-    searchTerms: ["סבון כלים", "נוזל כלים", "dish soap", "פיירי"],
-  },
-  {
-    id: "35",
-    name: "Laundry Detergent",
-    nameHebrew: "אבקת כביסה",
-    category: "ניקיון",
-    unit: "3 ק\"ג",
-    image: "🧺",
-    barcodes: ["7290000456789", "7290000456790"],
-    searchTerms: ["אבקת כביסה", "כביסה", "laundry", "סנו"],
-  },
-];
+// Products currently being priced (retired ones left out)
+export const productCatalog: CatalogProduct[] = [];
 
 // Create a map for quick barcode lookups
 export const barcodeToProduct = new Map<string, CatalogProduct>();
-productCatalog.forEach((product) => {
-  product.barcodes.forEach((barcode) => {
-    barcodeToProduct.set(barcode, product);
+
+/**
+ * Point productCatalog and barcodeToProduct at a new catalog
+ * Both are updated in place so every importer sees the change
+ */
+function applyCatalog(file: CatalogFile): void {
+  catalogFile = file;
+  const active = file.products.filter((product) => !product.retired);
+  productCatalog.splice(0, productCatalog.length, ...active);
+
+  barcodeToProduct.clear();
+  active.forEach((product) => {
+    getProductBarcodes(product).forEach((barcode) => {
+      barcodeToProduct.set(barcode, product);
+    });
   });
-});
+}
+
+applyCatalog(loadCatalog());
+
+/**
+ * Get every catalog product, including retired ones
+ */
+export function getAllCatalogProducts(): CatalogProduct[] {
+  return catalogFile.products;
+}
+
+/**
+ * Validate and save a new version of the catalog, then apply it
+ */
+function saveCatalog(products: CatalogProduct[]): string[] {
+  const errors = validateCatalog(products);
+  if (errors.length > 0) return errors;
+
+  const file: CatalogFile = { updatedAt: new Date().toISOString(), products };
+  writeFileSync(CATALOG_PATH, JSON.stringify(file, null, 2) + "\n", "utf-8");
+  applyCatalog(file);
+  return [];
+}
+
+/**
+ * Replace one product in the catalog and save it
+ */
+function saveProduct(product: CatalogProduct): CatalogChange {
+  const products = catalogFile.products.some((p) => p.id === product.id)
+    ? catalogFile.products.map((p) => (p.id === product.id ? product : p))
+    : [...catalogFile.products, product];
 
+  const errors = saveCatalog(products);
+  return errors.length > 0 ? { errors } : { product };
+}
+
+// Fields an admin can set on a product
+const EDITABLE_FIELDS = [
+  "name",
+  "nameHebrew",
+  "category",
+  "unit",
+  "image",
+  "barcodes",
+  "searchTerms",
+  "excludeTerms",
+  "fallbackPrice",
+  "variants",
+] as const;
+
+/**
+ * Keep only the editable product fields of a request body
+ */
+export function pickCatalogFields(body: Record<string, unknown>): Partial<CatalogProduct> {
+  const fields: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) fields[field] = body[field];
+  }
+  return fields as Partial<CatalogProduct>;
+}
+
+/**
+ * Get the next free numeric product ID
+ */
+function nextProductId(): string {
+  const ids = catalogFile.products.map((product) => Number(product.id)).filter(Number.isFinite);
+  return String(Math.max(0, ...ids) + 1);
+}
+
+/**
+ * Add a product to the catalog
+ * The ID is assigned when not given; missing fields fail validation
+ */
+export function createCatalogProduct(
+  input: Partial<Omit<CatalogProduct, "retired" | "retiredAt">>
+): CatalogChange {
+  const id = input.id ?? nextProductId();
+  if (catalogFile.products.some((product) => product.id === id)) {
+    return { errors: [`product ${id}: duplicate id`] };
+  }
+  return saveProduct({
+    ...input,
+    barcodes: input.barcodes ?? [],
+    searchTerms: input.searchTerms ?? [],
+    id,
+  } as CatalogProduct);
+}
+
+/**
+ * Change a product's fields (its ID can't change)
+ */
+export function updateCatalogProduct(
+  id: string,
+  changes: Partial<Omit<CatalogProduct, "id">>
+): CatalogChange {
+  const existing = catalogFile.products.find((product) => product.id === id);
+  if (!existing) return { errors: [`product ${id}: not found`] };
+  return saveProduct({ ...existing, ...changes, id });
+}
+
+/**
+ * Retire a product: it stops being priced but keeps its ID and history
+ */
+export function retireCatalogProduct(id: string): CatalogChange {
+  const existing = catalogFile.products.find((product) => product.id === id);
+  if (!existing) return { errors: [`product ${id}: not found`] };
+  if (existing.retired) return { product: existing };
+  return saveProduct({ ...existing, retired: true, retiredAt: new Date().toISOString() });
+}
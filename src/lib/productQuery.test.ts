@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { queryProducts } from "./productQuery";
+import { Product } from "./types";
+
+const products: Product[] = Array.from({ length: 120 }, (_, i) => ({
+  id: String(i + 1),
+  name: `Product ${i + 1}`,
+  nameHebrew: `מוצר ${i + 1}`,
+  category: "fruit",
+  unit: "1 ק\"ג",
+  averagePrice: (i % 7) + 1,
+  lowPrice: 1,
+  highPrice: 10,
+  image: "🍎",
+}));
+
+test("returns every product when no limit is given", () => {
+  const page = queryProducts(products, {});
+  assert.equal(page.products.length, products.length);
+  assert.equal(page.nextCursor, undefined);
+});
+
+test("pages through every product once with the cursor", () => {
+  const seen: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = queryProducts(products, { sort: "price", limit: 50, cursor });
+    seen.push(...page.products.map((product) => product.id!));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  assert.equal(seen.length, products.length);
+  assert.equal(new Set(seen).size, products.length);
+});
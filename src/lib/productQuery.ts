@@ -0,0 +1,206 @@
+/**
+ * Product Query
+ *
+ * Search, filtering, sorting and cursor pagination for /api/products, so
+ * clients can ask for just the products they need. Cursors carry the last
+ * product's sort key and ID, so a page boundary stays put when products
+ * before it drop out of the results between requests.
+ */
+
+import { Product } from "./types";
+import { getCategoryPath, isInCategory } from "./categories";
+import { tokenize } from "./matching";
+
+export type ProductSort = "name" | "price" | "spread" | "updated";
+export type SortOrder = "asc" | "desc";
+
+export const PRODUCT_SORTS: ProductSort[] = ["name", "price", "spread", "updated"];
+
+// Fields a client can ask for with ?fields= (id is always included)
+export const PRODUCT_FIELDS: (keyof Product)[] = [
+  "id",
+  "name",
+  "nameHebrew",
+  "category",
+  "unit",
+  "barcode",
+  "averagePrice",
+  "lowPrice",
+  "highPrice",
+  "image",
+  "lastUpdated",
+  "priceSource",
+  "dataAgeSeconds",
+  "storePrices",
+  "promoPrice",
+  "matchConfidence",
+  "stats",
+  "variants",
+];
+
+// Cheapest first by default, but the widest spread and newest change first
+const DEFAULT_ORDER: Record<ProductSort, SortOrder> = {
+  name: "asc",
+  price: "asc",
+  spread: "desc",
+  updated: "desc",
+};
+
+export const MAX_PAGE_SIZE = 200;
+
+export interface ProductQuery {
+  q?: string;
+  category?: string; // Any node of the category tree, for its whole subtree
+  minPrice?: number; // Bounds on the average price
+  maxPrice?: number;
+  sort?: ProductSort;
+  order?: SortOrder;
+  cursor?: string;
+  limit?: number; // Page size up to MAX_PAGE_SIZE; every product when unset
+  fields?: (keyof Product)[];
+}
+
+export interface ProductPage {
+  products: Partial<Product>[];
+  total: number; // Products matching the filters, across all pages
+  nextCursor?: string;
+}
+
+type SortKey = number | string;
+
+/**
+ * Get when a product's price last changed: the newest price update date
+ * the chains published for it, else when it was last crawled (ms, 0 if unknown)
+ */
+export function getLastChanged(product: Product): number {
+  const dates = (product.storePrices || [])
+    .map((p) => (p.priceUpdateDate ? Date.parse(p.priceUpdateDate.replace(" ", "T")) : NaN))
+    .filter((time) => !isNaN(time));
+  if (dates.length > 0) return Math.max(...dates);
+
+  const crawled = product.lastUpdated ? Date.parse(product.lastUpdated) : NaN;
+  return isNaN(crawled) ? 0 : crawled;
+}
+
+function getSortKey(product: Product, sort: ProductSort): SortKey {
+  switch (sort) {
+    case "name":
+      return product.nameHebrew;
+    case "price":
+      return product.averagePrice;
+    case "spread":
+      return Math.round((product.highPrice - product.lowPrice) * 100) / 100;
+    case "updated":
+      return getLastChanged(product);
+  }
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), "he");
+}
+
+/**
+ * Encode a cursor pointing just after a product in a sort order
+ */
+function encodeCursor(sort: ProductSort, key: SortKey, id: string): string {
+  return Buffer.from(JSON.stringify([sort, key, id])).toString("base64url");
+}
+
+/**
+ * Decode a cursor, or null when it wasn't made by encodeCursor for this sort
+ */
+export function decodeCursor(cursor: string, sort: ProductSort): [SortKey, string] | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (
+      Array.isArray(value) &&
+      value.length === 3 &&
+      value[0] === sort &&
+      (typeof value[1] === "number" || typeof value[1] === "string") &&
+      typeof value[2] === "string"
+    ) {
+      return [value[1], value[2]];
+    }
+  } catch {
+    // Fall through - not a cursor
+  }
+  return null;
+}
+
+/**
+ * Get the words a product can be found by: its Hebrew, English, variant
+ * and category names
+ */
+function getSearchTokens(product: Product): string[] {
+  const texts = [
+    product.nameHebrew,
+    product.name,
+    ...(product.variants || []).map((variant) => variant.nameHebrew),
+    ...getCategoryPath(product.category).flatMap((node) => [node.nameHebrew, node.name]),
+  ];
+  return tokenize(texts.join(" "));
+}
+
+/**
+ * Check whether every word of a search starts a word of the product's
+ * names, so "עגב" finds עגבניות and "choc" finds chocolate
+ */
+function matchesSearch(product: Product, queryTokens: string[]): boolean {
+  const tokens = getSearchTokens(product);
+  return queryTokens.every((word) => tokens.some((token) => token.startsWith(word)));
+}
+
+/**
+ * Keep only the requested fields of a product
+ */
+function project(product: Product, fields?: (keyof Product)[]): Partial<Product> {
+  if (!fields) return product;
+  const projected: Partial<Product> = { id: product.id };
+  for (const field of fields) {
+    (projected as Record<string, unknown>)[field] = product[field];
+  }
+  return projected;
+}
+
+/**
+ * Filter, sort and page products
+ * Expects a validated query (see the /api/products route)
+ */
+export function queryProducts(products: Product[], query: ProductQuery): ProductPage {
+  const queryTokens = query.q ? tokenize(query.q) : [];
+  const sort = query.sort || "name";
+  const direction = (query.order || DEFAULT_ORDER[sort]) === "asc" ? 1 : -1;
+  const limit = query.limit ?? Infinity;
+
+  const matching = products.filter(
+    (product) =>
+      (!query.category || isInCategory(product.category, query.category)) &&
+      (query.minPrice === undefined || product.averagePrice >= query.minPrice) &&
+      (query.maxPrice === undefined || product.averagePrice <= query.maxPrice) &&
+      (queryTokens.length === 0 || matchesSearch(product, queryTokens))
+  );
+
+  // Ties break on ID so every product has one place in the order
+  const compare = (a: [SortKey, string], b: [SortKey, string]) =>
+    compareKeys(a[0], b[0]) * direction || a[1].localeCompare(b[1]);
+  const sorted = matching
+    .map((product): [[SortKey, string], Product] => [
+      [getSortKey(product, sort), product.id],
+      product,
+    ])
+    .sort((a, b) => compare(a[0], b[0]));
+
+  const after = query.cursor ? decodeCursor(query.cursor, sort) : null;
+  const start = after ? sorted.findIndex(([key]) => compare(key, after) > 0) : 0;
+  const page = start < 0 ? [] : sorted.slice(start, start + limit);
+
+  const last = page[page.length - 1];
+  const hasMore = start >= 0 && start + limit < sorted.length;
+
+  return {
+    products: page.map(([, product]) => project(product, query.fields)),
+    total: matching.length,
+    nextCursor: hasMore && last ? encodeCursor(sort, last[0][0], last[0][1]) : undefined,
+  };
+}
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildPromotionIndex, findBestPromoPrice } from "./promotions";
+import { Promotion, RawStoreItem } from "./types";
+
+const promotion: Promotion = {
+  promotionId: "p1",
+  description: "2 ב-10",
+  itemCodes: ["7290000000001"],
+  minQuantity: 2,
+  discountedPrice: 10,
+  clubOnly: false,
+  storeIds: ["001"],
+  chainId: "shufersal",
+};
+
+function item(storeId: string): RawStoreItem {
+  return {
+    itemCode: "7290000000001",
+    itemName: "במבה",
+    itemPrice: 7,
+    unitOfMeasure: "",
+    quantity: 1,
+    chainId: "shufersal",
+    storeId,
+  };
+}
+
+test("applies a promotion only at the branches that published it", () => {
+  const index = buildPromotionIndex([promotion]);
+  assert.equal(findBestPromoPrice(item("001"), index)?.price, 5);
+  assert.equal(findBestPromoPrice(item("002"), index), null);
+});
+
+test("applies a promotion without a branch list at every branch", () => {
+  const index = buildPromotionIndex([{ ...promotion, storeIds: undefined }]);
+  assert.equal(findBestPromoPrice(item("002"), index)?.price, 5);
+});
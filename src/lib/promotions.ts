@@ -0,0 +1,86 @@
+/**
+ * Promotions
+ *
+ * Turns promotion terms ("2 for ₪10", "20% off", club prices) into an
+ * effective per-unit price that can be compared with shelf prices.
+ */
+
+import { Promotion, RawStoreItem } from "./types";
+
+export interface PromoPrice {
+  price: number;
+  promotion: Promotion;
+}
+
+/**
+ * Check whether a promotion is running at the given time
+ */
+export function isPromotionActive(promotion: Promotion, at: Date = new Date()): boolean {
+  if (promotion.startDate && new Date(promotion.startDate) > at) return false;
+  if (promotion.endDate && new Date(promotion.endDate) < at) return false;
+  return true;
+}
+
+/**
+ * Get the effective per-unit price of an item under a promotion
+ * Returns null when the promotion doesn't lower the price
+ */
+export function getEffectivePromoPrice(promotion: Promotion, regularPrice: number): number | null {
+  let price: number | null = null;
+
+  if (promotion.discountedPrice !== undefined) {
+    // Discounted price is the total for the whole bundle
+    price = promotion.discountedPrice / Math.max(promotion.minQuantity, 1);
+  } else if (promotion.discountRate !== undefined) {
+    price = regularPrice * (1 - promotion.discountRate / 100);
+  }
+
+  if (price === null || price <= 0 || price >= regularPrice) return null;
+  return Math.round(price * 100) / 100;
+}
+
+/**
+ * Index promotions by chain and item code for quick lookups
+ */
+export function buildPromotionIndex(promotions: Promotion[]): Map<string, Promotion[]> {
+  const index = new Map<string, Promotion[]>();
+  for (const promotion of promotions) {
+    for (const itemCode of promotion.itemCodes) {
+      const key = `${promotion.chainId || ""}:${itemCode}`;
+      const list = index.get(key) || [];
+      list.push(promotion);
+      index.set(key, list);
+    }
+  }
+  return index;
+}
+
+/**
+ * Check whether a promotion applies at the item's branch
+ */
+function appliesAtStore(promotion: Promotion, item: RawStoreItem): boolean {
+  if (!promotion.storeIds) return true;
+  return item.storeId !== undefined && promotion.storeIds.includes(item.storeId);
+}
+
+/**
+ * Find the best active promotion price for an item at its branch
+ */
+export function findBestPromoPrice(
+  item: RawStoreItem,
+  index: Map<string, Promotion[]>,
+  at: Date = new Date()
+): PromoPrice | null {
+  const promotions = index.get(`${item.chainId || ""}:${item.itemCode}`) || [];
+  let best: PromoPrice | null = null;
+
+  for (const promotion of promotions) {
+    if (!isPromotionActive(promotion, at) || !appliesAtStore(promotion, item)) continue;
+    const price = getEffectivePromoPrice(promotion, item.itemPrice);
+    if (price !== null && (!best || price < best.price)) {
+      best = { price, promotion };
+    }
+  }
+
+  return best;
+}
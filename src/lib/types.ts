@@ -12,46 +12,183 @@ export interface Product {
   highPrice: number;
   image: string;
   lastUpdated?: string;
+  priceSource?: PriceSource;
+  dataAgeSeconds?: number; // Age of this product's prices
   storePrices?: StorePrice[];
+  promoPrice?: number; // Lowest effective per-unit promotion price
+  matchConfidence?: number; // 0..1, how sure we are the matched items are this product
+  stats?: PriceStats;
+  variants?: ProductVariant[]; // Priced separately; the product's range covers them all
+}
+
+// A specific package of a product (size, grade or brand), priced in its own unit
+export interface ProductVariant {
+  id: string;
+  nameHebrew: string;
+  unit: string;
+  brand?: string;
+  privateLabel?: boolean;
+  barcode?: string;
+  averagePrice: number;
+  lowPrice: number;
+  highPrice: number;
+  priceSource?: PriceSource;
+  storePrices?: StorePrice[];
+  promoPrice?: number;
+  stats?: PriceStats;
+}
+
+// Where a product's prices came from, freshest first:
+// the current crawl, the last successful crawl, or static estimates
+export type PriceSource = "live" | "snapshot" | "estimate";
+
+// Price distribution after outlier trimming
+export interface PriceStats {
+  averagePrice: number;
+  lowPrice: number;
+  highPrice: number;
+  median: number;
+  p10: number;
+  p25: number;
+  p75: number;
+  p90: number;
+  sampleCount: number;
+  outlierCount: number; // Prices dropped as outliers
 }
 
 export interface StorePrice {
   storeName: string;
   storeChain: string;
-  price: number;
+  chainId?: string;
+  storeId?: string;
+  city?: string;
+  price: number; // Normalized to the catalog product's unit
+  shelfPrice?: number; // Original package price, when it was rescaled
   priceUpdateDate?: string;
+  promoPrice?: number; // Effective per-unit price under the best active promotion
+  promoDescription?: string;
+  promoClubOnly?: boolean;
+  matchConfidence?: number; // 1 for a barcode match, lower for name matches
+}
+
+// A crawled item's price at one branch, as the chain published it
+export interface BranchPrice extends StorePrice {
+  unitPrice?: number; // Per kg, liter or piece (see unitPriceKind)
+  unitPriceKind?: "kg" | "liter" | "unit";
+}
+
+// A crawled item looked up by its code, whether or not the catalog covers it
+export interface CrawledItem {
+  itemCode: string;
+  itemName: string; // The name most branches use
+  isWeighted: boolean;
+  prices: BranchPrice[];
+  stats: PriceStats;
+  lastUpdated?: string; // When the crawl it came from ran
 }
 
 export interface RawStoreItem {
   itemCode: string;
   itemName: string;
   itemPrice: number;
-  unitOfMeasure: string;
-  quantity: number;
+  unitOfMeasure: string; // Unit the unit price refers to, e.g. "100 גרם"
+  quantity: number; // Package size in unitQty units
+  unitQty?: string; // e.g. "גרם", "ליטר", "יחידה"
   unitOfMeasurePrice?: number;
+  isWeighted?: boolean; // Sold by weight - itemPrice is per kg
   priceUpdateDate?: string;
+  chainId?: string; // Set when results from several chains are merged
+  storeId?: string; // Branch the price was published for
+}
+
+// A chain branch, as listed in the chain's Stores file
+export interface StoreBranch {
+  storeId: string;
+  storeName: string;
+  city: string;
+  address: string;
+  subChainId?: string;
+  subChainName?: string;
+  storeType?: string;
+  chainId?: string; // Set when results from several chains are merged
 }
 
 export interface CrawlerResult {
   success: boolean;
+  chainId: string;
   storeName: string;
   items: RawStoreItem[];
+  promotions?: Promotion[];
+  stores?: StoreBranch[];
   error?: string;
   fetchedAt: string;
+  report?: CrawlReport;
+}
+
+export type CrawlFileStatus = "success" | "failed" | "skipped";
+
+// What happened to one price, promo or stores file during a crawl
+export interface CrawlFileReport {
+  url: string;
+  fileType: "price" | "promo" | "stores";
+  storeId?: string;
+  status: CrawlFileStatus;
+  bytes: number; // Bytes downloaded (compressed), 0 when skipped
+  itemCount: number; // Items, promotions or branches parsed
+  attempts: number;
+  durationMs: number;
+  encoding?: string; // Charset the file was decoded with
+  garbledCount?: number; // Spots where Hebrew still looked corrupted after decoding
+  error?: string; // Failure or skip reason
+}
+
+export interface CrawlReport {
+  chainId: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  files: CrawlFileReport[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  totalBytes: number;
+  totalItems: number;
+  garbledFiles: number; // Files whose text looked corrupted after decoding
+  branchesListed?: number; // Branches with a PriceFull in the listing
+  branchLimit?: number; // Set when only a sample of them was crawled (CRAWL_MAX_STORES)
 }
 
-export const categories = [
-  "ירקות",
-  "פירות",
-  "חלב וביצים",
-  "לחם ומאפים",
-  "בשר ועוף",
-  "דגים",
-  "שימורים",
-  "משקאות",
-  "חטיפים",
-  "ניקיון",
-] as const;
+export interface Promotion {
+  promotionId: string;
+  description: string;
+  itemCodes: string[];
+  minQuantity: number; // Units needed to get the deal, e.g. 2 for "2 for ₪10"
+  discountedPrice?: number; // Total price for minQuantity units
+  discountRate?: number; // Percent off the regular price
+  startDate?: string;
+  endDate?: string;
+  clubOnly: boolean; // Only for club members / card holders
+  storeIds?: string[]; // Branches whose promo files list it; every branch when unset
+  chainId?: string; // Set when results from several chains are merged
+}
 
-export type Category = (typeof categories)[number];
+// Where a crawl's requests go: the network, or local fixtures (see crawlers/source.ts)
+export interface CrawlSource {
+  name: string;
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+// A chain that publishes price files under the price transparency law
+export interface StoreCrawler {
+  chainId: string;
+  chainName: string;
+  crawl(source?: CrawlSource): Promise<CrawlerResult>;
+}
 
+// A node in the category tree (see lib/categories.ts)
+export interface CategoryNode {
+  id: string;
+  nameHebrew: string;
+  name: string;
+  parentId?: string; // Unset for top-level categories
+}
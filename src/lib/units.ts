@@ -0,0 +1,129 @@
+/**
+ * Unit Normalization
+ *
+ * Parses the chains' unit strings ("100 גרם", "ליטר", 'ק"ג') so prices of
+ * different package sizes can be compared per kg, per liter or per unit.
+ */
+
+import { RawStoreItem } from "./types";
+
+export type UnitKind = "kg" | "liter" | "unit";
+
+// An amount in base units: kilograms, liters or pieces
+export interface Measure {
+  kind: UnitKind;
+  amount: number;
+}
+
+// Packages further than this factor from the catalog size are dropped
+// rather than rescaled - a 3kg family pack isn't priced like a 200g one
+const MAX_SIZE_RATIO = 4;
+
+// Unit words mapped to their base unit and multiplier
+const UNIT_ALIASES: { pattern: RegExp; kind: UnitKind; factor: number }[] = [
+  { pattern: /^(ק"?ג|קילו(גרם)?|kg|kilo)$/, kind: "kg", factor: 1 },
+  { pattern: /^(גר(ם|מים)?'?|ג'?|g|gr|gram|grams)$/, kind: "kg", factor: 0.001 },
+  { pattern: /^(מ"?ל|מיליליטר|ml)$/, kind: "liter", factor: 0.001 },
+  { pattern: /^(ל(יטר|יטרים)?'?|l|ltr|liter|litre)$/, kind: "liter", factor: 1 },
+  { pattern: /^(יח(ידה|ידות)?'?|unit|units|pcs)$/, kind: "unit", factor: 1 },
+];
+
+/**
+ * Parse a unit string like "100 גרם", "ליטר" or '1.5 ל' into base units
+ */
+export function parseUnit(text: string | undefined): Measure | null {
+  if (!text) return null;
+
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .replace(/[״”“]/g, '"')
+    .replace(/[׳’`]/g, "'");
+
+  const match = normalized.match(/^(\d+(?:[.,]\d+)?)?\s*(.*)$/);
+  if (!match) return null;
+
+  const amount = match[1] ? parseFloat(match[1].replace(",", ".")) : 1;
+  const word = match[2].trim().replace(/\.$/, "");
+  if (!(amount > 0)) return null;
+
+  const alias = UNIT_ALIASES.find((entry) => entry.pattern.test(word));
+  if (!alias) return null;
+
+  return { kind: alias.kind, amount: amount * alias.factor };
+}
+
+/**
+ * Get the package size of an item, e.g. 500 × "גרם" → 0.5 kg
+ * Weighted items are priced per kilogram
+ */
+export function getItemPackage(item: RawStoreItem): Measure | null {
+  if (item.isWeighted) return { kind: "kg", amount: 1 };
+
+  const unit = parseUnit(item.unitQty);
+  if (unit && item.quantity > 0) {
+    return { kind: unit.kind, amount: unit.amount * item.quantity };
+  }
+
+  return null;
+}
+
+/**
+ * Get an item's price per base unit (per kg, per liter or per piece)
+ */
+export function getUnitPrice(item: RawStoreItem): { kind: UnitKind; price: number } | null {
+  const pkg = getItemPackage(item);
+  if (pkg) {
+    return { kind: pkg.kind, price: item.itemPrice / pkg.amount };
+  }
+
+  // Fall back to the chain's own unit price, e.g. ₪3.50 per "100 גרם"
+  const measure = parseUnit(item.unitOfMeasure);
+  if (measure && item.unitOfMeasurePrice && item.unitOfMeasurePrice > 0) {
+    return { kind: measure.kind, price: item.unitOfMeasurePrice / measure.amount };
+  }
+
+  return null;
+}
+
+/**
+ * Get the factor that converts an item's shelf price to the price of the
+ * catalog's unit (e.g. 0.4 for a 500g item against a "200 גרם" product)
+ * Returns 1 when either size is unknown, and null when the item can't be
+ * compared (different kind of unit, or a package size far off the catalog's)
+ */
+export function getCatalogScale(item: RawStoreItem, catalogUnit: string): number | null {
+  const target = parseUnit(catalogUnit);
+  const pkg = getItemPackage(item) ?? derivePackage(item);
+  if (!target || !pkg) return 1;
+
+  if (target.kind !== pkg.kind) return null;
+
+  const ratio = target.amount / pkg.amount;
+  // Weighted items are sold by the kilo, so any amount can be bought
+  if (!item.isWeighted && (ratio > MAX_SIZE_RATIO || ratio < 1 / MAX_SIZE_RATIO)) {
+    return null;
+  }
+
+  return ratio;
+}
+
+/**
+ * Get the factor between the prices of two catalog units, e.g. 2 from
+ * "1 ליטר" to "2 ליטר"; 1 when they can't be compared
+ */
+export function getUnitRatio(fromUnit: string, toUnit: string): number {
+  const from = parseUnit(fromUnit);
+  const to = parseUnit(toUnit);
+  if (!from || !to || from.kind !== to.kind) return 1;
+  return to.amount / from.amount;
+}
+
+/**
+ * Derive the package size from the shelf price and the chain's unit price
+ */
+function derivePackage(item: RawStoreItem): Measure | null {
+  const unitPrice = getUnitPrice(item);
+  if (!unitPrice || unitPrice.price <= 0) return null;
+  return { kind: unitPrice.kind, amount: item.itemPrice / unitPrice.price };
+}